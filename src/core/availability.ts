@@ -0,0 +1,190 @@
+import type { OperationQuery, OperationUpdateItem } from '../types/operations';
+import { getValueByPath } from '../utils/query-matcher';
+
+export type AvailabilityTransition = 'reserve' | 'releaseReservation' | 'markSold' | 'markProduced';
+
+export interface ReserveOptions {
+    orderId: string;
+    /** Expiration of the reservation, makes it temporary unless temporary is false */
+    expiresAt?: Date | string;
+    temporary?: boolean;
+    /** Reservation date, defaults to now */
+    date?: Date | string;
+}
+
+export interface ReleaseReservationOptions {
+    /** Only release reservations held by this order */
+    orderId?: string;
+}
+
+export interface MarkSoldOptions {
+    orderId: string;
+    /** Sale date, defaults to now */
+    date?: Date | string;
+}
+
+export interface MarkProducedOptions {
+    orderId?: string;
+    /** Production date, defaults to now */
+    date?: Date | string;
+}
+
+export interface AvailabilityTransitionResult {
+    /** Ids of the items whose availability was modified */
+    changedIds: string[];
+    /** Ids of the items already in the requested state */
+    unchangedIds: string[];
+}
+
+/**
+ * Conditional update moving items from one availability state to another
+ */
+export interface AvailabilityPlan {
+    transition: AvailabilityTransition;
+    /** Condition an item must still meet when it is updated */
+    guard: OperationQuery;
+    update: OperationUpdateItem;
+    /** Condition met by items in the state the transition leads to, items already meeting it are left untouched */
+    target: OperationQuery;
+    /** Why an item cannot make the transition, null when it can */
+    conflict(item: any): string | null;
+}
+
+const toIsoString = (date: Date | string | undefined): string =>
+    date === undefined ? new Date().toISOString() : date instanceof Date ? date.toISOString() : date;
+
+const orderOf = (item: any, state: string): string | undefined =>
+    getValueByPath(item, `availability.${state}.orderId`) ?? undefined;
+
+const hasState = (item: any, state: string): boolean => {
+    const value = getValueByPath(item, `availability.${state}`);
+    return value !== null && value !== undefined;
+};
+
+/**
+ * Reserve items for an order, refusing sold items and items reserved by another order
+ */
+export function planReserve({ orderId, expiresAt, temporary, date }: ReserveOptions): AvailabilityPlan {
+    if (!orderId) {
+        throw new Error('orderId is required to reserve items');
+    }
+    const isTemporary = temporary ?? expiresAt !== undefined;
+    if (isTemporary && expiresAt === undefined) {
+        throw new Error('expiresAt is required for temporary reservations');
+    }
+
+    const reserved: Record<string, any> = { orderId, date: toIsoString(date), temporary: isTemporary };
+    if (expiresAt !== undefined) {
+        reserved.expiration = toIsoString(expiresAt);
+    }
+
+    return {
+        transition: 'reserve',
+        guard: {
+            'availability.sold': { $exists: false },
+            $or: [
+                { 'availability.reserved': { $exists: false } },
+                { 'availability.reserved.orderId': orderId },
+            ],
+        },
+        update: { $set: { 'availability.reserved': reserved } },
+        // A reservation of the same order with another expiration is renewed
+        target: {
+            'availability.reserved.orderId': orderId,
+            'availability.reserved.temporary': isTemporary,
+            'availability.reserved.expiration': expiresAt === undefined ? { $exists: false } : new Date(expiresAt),
+        },
+        conflict: item => {
+            if (hasState(item, 'sold')) {
+                return `already sold to order ${orderOf(item, 'sold')}`;
+            }
+            const holder = orderOf(item, 'reserved');
+            if (hasState(item, 'reserved') && holder !== orderId) {
+                return `reserved by order ${holder}`;
+            }
+            return null;
+        },
+    };
+}
+
+/**
+ * Release the reservation of items, optionally only the ones held by an order
+ */
+export function planReleaseReservation({ orderId }: ReleaseReservationOptions = {}): AvailabilityPlan {
+    return {
+        transition: 'releaseReservation',
+        guard: {
+            'availability.sold': { $exists: false },
+            ...(orderId ? { 'availability.reserved.orderId': orderId } : { 'availability.reserved': { $exists: true } }),
+        },
+        update: { $unset: { 'availability.reserved': '' } },
+        target: { 'availability.reserved': { $exists: false } },
+        conflict: item => {
+            if (hasState(item, 'sold')) {
+                return `already sold to order ${orderOf(item, 'sold')}`;
+            }
+            if (!hasState(item, 'reserved')) {
+                return 'not reserved';
+            }
+            const holder = orderOf(item, 'reserved');
+            if (orderId && holder !== orderId) {
+                return `reserved by order ${holder}`;
+            }
+            return null;
+        },
+    };
+}
+
+/**
+ * Mark items as sold, clearing the reservation of the same order
+ */
+export function planMarkSold({ orderId, date }: MarkSoldOptions): AvailabilityPlan {
+    if (!orderId) {
+        throw new Error('orderId is required to mark items as sold');
+    }
+    const sold: Record<string, any> = { orderId, date: toIsoString(date) };
+
+    return {
+        transition: 'markSold',
+        guard: {
+            'availability.sold': { $exists: false },
+            $or: [
+                { 'availability.reserved': { $exists: false } },
+                { 'availability.reserved.orderId': orderId },
+            ],
+        },
+        update: {
+            $set: { 'availability.sold': sold },
+            $unset: { 'availability.reserved': '' },
+        },
+        target: { 'availability.sold.orderId': orderId },
+        conflict: item => {
+            if (hasState(item, 'sold')) {
+                return `already sold to order ${orderOf(item, 'sold')}`;
+            }
+            const holder = orderOf(item, 'reserved');
+            if (hasState(item, 'reserved') && holder !== orderId) {
+                return `reserved by order ${holder}`;
+            }
+            return null;
+        },
+    };
+}
+
+/**
+ * Mark items as produced, refusing items already produced
+ */
+export function planMarkProduced({ orderId, date }: MarkProducedOptions = {}): AvailabilityPlan {
+    const produced: Record<string, any> = { date: toIsoString(date) };
+    if (orderId) {
+        produced.orderId = orderId;
+    }
+
+    return {
+        transition: 'markProduced',
+        guard: { 'availability.produced': { $exists: false } },
+        update: { $set: { 'availability.produced': produced } },
+        target: orderId ? { 'availability.produced.orderId': orderId } : { 'availability.produced': { $exists: true } },
+        conflict: item => hasState(item, 'produced') ? 'already produced' : null,
+    };
+}
@@ -0,0 +1,163 @@
+import type { OperationBulkOperation, OperationBulkWriteError, OperationBulkWriteResult } from '../types/operations';
+import { encodeValue } from '../utils/codec';
+
+export interface BulkWriteChunkingOptions {
+    /** Operations per request, defaults to 1000 */
+    maxOperations?: number;
+    /** Serialized size of the operations of a request in bytes, defaults to 1 MiB */
+    maxBytes?: number;
+    /** Requests in flight for unordered bulk writes, defaults to 4. Ordered bulk writes send one at a time */
+    concurrency?: number;
+}
+
+export interface BulkWriteChunk {
+    /** Index of the first operation of the chunk in the whole bulk write */
+    offset: number;
+    operations: OperationBulkOperation[];
+}
+
+export const DEFAULT_BULK_WRITE_CHUNKING: Required<BulkWriteChunkingOptions> = {
+    maxOperations: 1000,
+    maxBytes: 1024 * 1024,
+    concurrency: 4,
+};
+
+const count = (value: any): number => typeof value === 'number' && Number.isFinite(value) ? value : 0;
+
+/**
+ * Read a write error as sent by the API, which may use the MongoDB errmsg field
+ */
+function toWriteError(error: any): OperationBulkWriteError {
+    const writeError: OperationBulkWriteError = {
+        index: Number(error?.index),
+        message: error?.message ?? error?.errmsg ?? 'Write failed',
+    };
+    if (error?.code !== undefined) {
+        writeError.code = error.code;
+    }
+    return writeError;
+}
+
+/**
+ * Complete a bulk write result received from the API, missing counts are zero
+ * @param writeErrors - Write errors sent next to the result instead of inside it
+ */
+export function toBulkWriteResult(data: any, writeErrors?: any[]): OperationBulkWriteResult {
+    const errors = writeErrors ?? data?.writeErrors ?? [];
+    return {
+        acknowledged: data?.acknowledged ?? true,
+        insertedCount: count(data?.insertedCount),
+        matchedCount: count(data?.matchedCount),
+        modifiedCount: count(data?.modifiedCount),
+        deletedCount: count(data?.deletedCount),
+        insertedIds: { ...data?.insertedIds },
+        writeErrors: (Array.isArray(errors) ? errors : []).map(toWriteError),
+    };
+}
+
+/**
+ * Indexes of the operations a failed bulk write did not complete: the failed ones and,
+ * when ordered, every operation after the first failure since the API stopped there
+ */
+export function getIncompleteIndexes(result: OperationBulkWriteResult, operationCount: number, ordered: boolean = true): number[] {
+    const failed = result.writeErrors.map(error => error.index).filter(index => index >= 0 && index < operationCount);
+    if (!ordered || failed.length === 0) {
+        return [...new Set(failed)].sort((a, b) => a - b);
+    }
+    const first = Math.min(...failed);
+    return Array.from({ length: operationCount - first }, (_, offset) => first + offset);
+}
+
+/**
+ * Resolve chunking options against the defaults, rejecting values that cannot be honoured
+ */
+export function resolveChunking(...options: (BulkWriteChunkingOptions | undefined)[]): Required<BulkWriteChunkingOptions> {
+    const resolved = { ...DEFAULT_BULK_WRITE_CHUNKING };
+    for (const option of options) {
+        for (const [key, value] of Object.entries(option ?? {}) as [keyof BulkWriteChunkingOptions, number | undefined][]) {
+            if (value === undefined) {
+                continue;
+            }
+            if (!Number.isInteger(value) || value <= 0) {
+                throw new Error(`${key} must be a positive integer`);
+            }
+            resolved[key] = value;
+        }
+    }
+    return resolved;
+}
+
+const byteLength = (value: string): number => new TextEncoder().encode(value).length;
+
+/**
+ * Split operations into chunks holding at most maxOperations operations and maxBytes of JSON.
+ * An operation larger than maxBytes is sent alone rather than dropped.
+ */
+export function chunkBulkWrite(
+    operations: OperationBulkOperation[],
+    { maxOperations, maxBytes }: Pick<Required<BulkWriteChunkingOptions>, 'maxOperations' | 'maxBytes'>
+): BulkWriteChunk[] {
+    const chunks: BulkWriteChunk[] = [];
+    let current: BulkWriteChunk = { offset: 0, operations: [] };
+    let currentBytes = 0;
+
+    operations.forEach((operation, index) => {
+        // One more byte for the comma separating it from the previous operation
+        const size = byteLength(JSON.stringify(encodeValue(operation))) + 1;
+        const full = current.operations.length >= maxOperations || currentBytes + size > maxBytes;
+        if (current.operations.length > 0 && full) {
+            chunks.push(current);
+            current = { offset: index, operations: [] };
+            currentBytes = 0;
+        }
+        current.operations.push(operation);
+        currentBytes += size;
+    });
+
+    if (current.operations.length > 0) {
+        chunks.push(current);
+    }
+    return chunks;
+}
+
+/**
+ * Add up the results of chunks, moving inserted ids and write errors back to the index
+ * of their operation in the whole bulk write
+ */
+export function mergeBulkWriteResults(parts: { offset: number; result: OperationBulkWriteResult }[]): OperationBulkWriteResult {
+    const merged = toBulkWriteResult({});
+    for (const { offset, result } of [...parts].sort((a, b) => a.offset - b.offset)) {
+        merged.acknowledged = merged.acknowledged && result.acknowledged;
+        merged.insertedCount += result.insertedCount;
+        merged.matchedCount += result.matchedCount;
+        merged.modifiedCount += result.modifiedCount;
+        merged.deletedCount += result.deletedCount;
+        for (const [index, id] of Object.entries(result.insertedIds)) {
+            merged.insertedIds[offset + Number(index)] = id;
+        }
+        merged.writeErrors.push(...result.writeErrors.map(error => ({ ...error, index: offset + error.index })));
+    }
+    return merged;
+}
+
+/**
+ * Run a task for every item with at most concurrency tasks at once, in item order.
+ * No task is started after one resolves with false.
+ */
+export async function runWithConcurrency<T>(
+    items: T[],
+    concurrency: number,
+    task: (item: T) => Promise<boolean>
+): Promise<void> {
+    let next = 0;
+    let stopped = false;
+
+    const worker = async () => {
+        while (!stopped && next < items.length) {
+            if (!(await task(items[next++]))) {
+                stopped = true;
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+}
@@ -0,0 +1,168 @@
+import { readFile } from 'fs/promises';
+
+export interface RaukCredentials {
+    apiKeyId: string;
+    apiSecret: string;
+    apiPublicKey: string;
+}
+
+/**
+ * Supplies the credentials used to sign requests, consulted before every request attempt.
+ * Implement it to load keys from a secret manager and rotate them without restarting.
+ */
+export interface RaukCredentialProvider {
+    getCredentials(): RaukCredentials | Promise<RaukCredentials>;
+    /**
+     * Drop cached credentials so the next call loads them again.
+     * Called once after the API refused a request with an authentication error, the request is then retried.
+     * Providers without it are not retried.
+     */
+    refresh?(): void | Promise<void>;
+}
+
+/**
+ * Credentials returned by a callback, with an optional expiry
+ */
+export interface ExpiringCredentials extends RaukCredentials {
+    /** Date or epoch milliseconds after which the credentials are loaded again */
+    expiresAt?: Date | number;
+}
+
+export interface CallbackCredentialsOptions {
+    /** How long loaded credentials are reused when they carry no expiresAt, defaults to 5 minutes */
+    ttlMs?: number;
+}
+
+export interface EnvCredentialsOptions {
+    apiKeyId?: string;
+    apiSecret?: string;
+    apiPublicKey?: string;
+    /** Environment to read, defaults to process.env */
+    env?: Record<string, string | undefined>;
+}
+
+const DEFAULT_CREDENTIALS_TTL_MS = 5 * 60 * 1000;
+
+function assertCredentials(credentials: Partial<RaukCredentials> | undefined, source: string): RaukCredentials {
+    if (!credentials?.apiKeyId || !credentials.apiSecret || !credentials.apiPublicKey) {
+        throw new Error(`apiKeyId, apiSecret and apiPublicKey are required, missing from ${source}`);
+    }
+    return {
+        apiKeyId: credentials.apiKeyId,
+        apiSecret: credentials.apiSecret,
+        apiPublicKey: credentials.apiPublicKey,
+    };
+}
+
+/**
+ * Credentials that never change
+ */
+export function staticCredentials(credentials: RaukCredentials): RaukCredentialProvider {
+    const resolved = assertCredentials(credentials, 'the static credentials');
+    return { getCredentials: () => resolved };
+}
+
+/**
+ * Credentials read from environment variables on every request, so updating the variables rotates them.
+ * Nothing is cached, a refused request is still retried once in case the variables changed meanwhile.
+ * @param options - Names of the variables, default to RAUK_API_KEY_ID, RAUK_API_SECRET and RAUK_API_PUBLIC_KEY
+ */
+export function envCredentials(options: EnvCredentialsOptions = {}): RaukCredentialProvider {
+    const {
+        apiKeyId = 'RAUK_API_KEY_ID',
+        apiSecret = 'RAUK_API_SECRET',
+        apiPublicKey = 'RAUK_API_PUBLIC_KEY',
+    } = options;
+
+    return {
+        getCredentials: () => {
+            const env = options.env ?? process.env;
+            return assertCredentials({
+                apiKeyId: env[apiKeyId],
+                apiSecret: env[apiSecret],
+                apiPublicKey: env[apiPublicKey],
+            }, `the environment variables ${apiKeyId}, ${apiSecret} and ${apiPublicKey}`);
+        },
+        refresh: () => {},
+    };
+}
+
+/**
+ * Credentials loaded by a callback, reused until they expire.
+ * Concurrent requests share a single load, a failed load is not cached.
+ * @example
+ * const credentials = callbackCredentials(async () => {
+ *     const secret = await secretManager.get("rauk-inventory");
+ *     return { ...JSON.parse(secret.value), expiresAt: secret.rotatesAt };
+ * }, { ttlMs: 60_000 });
+ */
+export function callbackCredentials(
+    load: () => ExpiringCredentials | Promise<ExpiringCredentials>,
+    options: CallbackCredentialsOptions = {}
+): RaukCredentialProvider {
+    const ttlMs = options.ttlMs ?? DEFAULT_CREDENTIALS_TTL_MS;
+    let cached: { credentials: RaukCredentials; expiresAt: number } | undefined;
+    let pending: Promise<RaukCredentials> | undefined;
+    // Bumped by refresh, loads started before it are not cached
+    let generation = 0;
+
+    const loadCredentials = async (): Promise<RaukCredentials> => {
+        const started = generation;
+        const loaded = await load();
+        const credentials = assertCredentials(loaded, 'the loaded credentials');
+        const expiresAt = loaded.expiresAt !== undefined ? new Date(loaded.expiresAt).getTime() : Date.now() + ttlMs;
+        if (started === generation) {
+            cached = { credentials, expiresAt };
+        }
+        return credentials;
+    };
+
+    return {
+        getCredentials: () => {
+            if (cached && Date.now() < cached.expiresAt) {
+                return cached.credentials;
+            }
+            if (!pending) {
+                const loading = loadCredentials().finally(() => {
+                    if (pending === loading) {
+                        pending = undefined;
+                    }
+                });
+                pending = loading;
+            }
+            return pending;
+        },
+        refresh: () => {
+            generation++;
+            cached = undefined;
+            pending = undefined;
+        },
+    };
+}
+
+/**
+ * Credentials read from a JSON file holding apiKeyId, apiSecret and apiPublicKey,
+ * read again once the TTL elapsed or the API refused them
+ * @example
+ * const credentials = fileCredentials("/run/secrets/rauk.json", { ttlMs: 60_000 });
+ */
+export function fileCredentials(path: string, options: CallbackCredentialsOptions = {}): RaukCredentialProvider {
+    return callbackCredentials(async () => JSON.parse(await readFile(path, 'utf8')), options);
+}
+
+/**
+ * Provider for a client configuration, the credentials option takes precedence over the key strings
+ */
+export function resolveCredentialProvider(config: Partial<RaukCredentials> & { credentials?: RaukCredentialProvider }): RaukCredentialProvider {
+    if (config.credentials) {
+        return config.credentials;
+    }
+    if (!config.apiKeyId || !config.apiSecret || !config.apiPublicKey) {
+        throw new Error('apiKeyId, apiSecret and apiPublicKey are required unless a credentials provider is given');
+    }
+    return staticCredentials({
+        apiKeyId: config.apiKeyId,
+        apiSecret: config.apiSecret,
+        apiPublicKey: config.apiPublicKey,
+    });
+}
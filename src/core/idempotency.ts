@@ -0,0 +1,47 @@
+import { randomUUID } from 'crypto';
+import type { OperationClientOptions } from '../types/operations';
+
+/**
+ * Header carrying the idempotency key of a write.
+ * Contract for the API and stand-ins: the first response to a key is stored together with the request body,
+ * a request repeating the key and the body is answered with the stored response and the
+ * Idempotent-Replayed header, a request repeating the key with another body is refused with a 422.
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+/**
+ * Writes that carry an idempotency key. They may apply twice when a request is retried after the server
+ * already processed it, updates included since $inc and $push apply again
+ */
+export const IDEMPOTENCY_KEY_OPERATIONS: readonly string[] = ['insertOne', 'bulkWrite', 'findOneAndUpdate', 'updateMany'];
+
+/**
+ * Idempotency key of a request, shared by all of its attempts
+ * @param operation - The operation of the request
+ * @param idempotencyKey - The key given by the caller
+ * @param retriesEnabled - Whether the client may send the request more than once, a key is generated then
+ * @returns The key, or undefined for operations that do not carry one
+ */
+export function resolveIdempotencyKey(operation: string, idempotencyKey: string | undefined, retriesEnabled: boolean): string | undefined {
+    if (!IDEMPOTENCY_KEY_OPERATIONS.includes(operation)) {
+        return undefined;
+    }
+    return idempotencyKey ?? (retriesEnabled ? randomUUID() : undefined);
+}
+
+/**
+ * Options for one of several requests made on behalf of a single call.
+ * Each request needs a key of its own, the same key with another body is refused by the API.
+ * @param options - The options of the call
+ * @param suffix - Identifies the request within the call, like an item id or a batch index
+ */
+export function deriveIdempotencyKey<O extends OperationClientOptions>(options: O, suffix: string | number): O;
+export function deriveIdempotencyKey<O extends OperationClientOptions>(options: O | undefined, suffix: string | number): O | undefined;
+export function deriveIdempotencyKey<O extends OperationClientOptions>(options: O | undefined, suffix: string | number): O | undefined {
+    if (options?.idempotencyKey === undefined) {
+        return options;
+    }
+    return { ...options, idempotencyKey: `${options.idempotencyKey}:${suffix}` };
+}
@@ -0,0 +1,86 @@
+import type { RaukError } from '../utils/errors';
+
+/**
+ * Context shared by every hook of a single request attempt
+ */
+export interface RaukRequestContext {
+    /** Operation name, e.g. "find", "findOneAndUpdate" or "bulkWrite" */
+    readonly operation: string;
+    /** The request array sent to the API, already signed and therefore read-only */
+    readonly requestArray: readonly any[];
+    readonly url: string;
+    /** Outgoing headers, including the Rai-Signature header. Hooks may add headers here. */
+    headers: Record<string, string>;
+    /** Attempt number, starting at 1, increased on every retry */
+    readonly attempt: number;
+    /** Free-form storage to pass data between the hooks of one attempt */
+    metadata: Record<string, any>;
+}
+
+export interface RaukResponseContext extends RaukRequestContext {
+    readonly status: number;
+    readonly latencyMs: number;
+    /** Parsed response body, replace it to change what the client method returns */
+    data: any;
+}
+
+export interface RaukErrorContext extends RaukRequestContext {
+    /** HTTP status, undefined when no response was received */
+    readonly status?: number;
+    readonly latencyMs: number;
+    /** The error that will be thrown, replace it to throw a different error */
+    error: RaukError;
+}
+
+/**
+ * Lifecycle hooks around every request attempt.
+ * onRequest hooks run in registration order, onResponse and onError hooks in reverse order.
+ */
+export interface RaukMiddleware {
+    name?: string;
+    onRequest?(context: RaukRequestContext): void | Promise<void>;
+    onResponse?(context: RaukResponseContext): void | Promise<void>;
+    onError?(context: RaukErrorContext): void | Promise<void>;
+}
+
+/**
+ * Ordered list of middleware registered on a client
+ */
+export class MiddlewareChain {
+    private middleware: RaukMiddleware[] = [];
+
+    constructor(middleware: RaukMiddleware[] = []) {
+        this.middleware = [...middleware];
+    }
+
+    /**
+     * Append a middleware to the chain
+     * @returns A function removing the middleware again
+     */
+    public add(middleware: RaukMiddleware): () => void {
+        this.middleware.push(middleware);
+        return () => this.remove(middleware);
+    }
+
+    public remove(middleware: RaukMiddleware): void {
+        this.middleware = this.middleware.filter(entry => entry !== middleware);
+    }
+
+    public async runRequest(context: RaukRequestContext): Promise<void> {
+        for (const middleware of [...this.middleware]) {
+            await middleware.onRequest?.(context);
+        }
+    }
+
+    public async runResponse(context: RaukResponseContext): Promise<void> {
+        for (const middleware of [...this.middleware].reverse()) {
+            await middleware.onResponse?.(context);
+        }
+    }
+
+    public async runError(context: RaukErrorContext): Promise<void> {
+        for (const middleware of [...this.middleware].reverse()) {
+            await middleware.onError?.(context);
+        }
+    }
+}
@@ -0,0 +1,53 @@
+import type { OperationLocation, OperationUpdateItem } from '../types/operations';
+import type { LocationHistoryEntry } from '../types/item';
+
+export interface DispatchOptions {
+    /** Id of the location the items are sent to */
+    to: string;
+    /** Client the items are sent to */
+    client?: string;
+}
+
+export interface ReceiveOptions {
+    /** Movement date recorded in the location history, defaults to now */
+    date?: Date | string;
+}
+
+/**
+ * Update putting items in transit
+ */
+export function buildDispatchUpdate({ to, client }: DispatchOptions): OperationUpdateItem {
+    if (!to) {
+        throw new Error('to is required to dispatch items');
+    }
+    return { $set: { transitTo: client === undefined ? { id: to } : { id: to, client } } };
+}
+
+/**
+ * Update moving items to a location, clearing their transit and recording the movement
+ */
+export function buildReceiveUpdate(location: OperationLocation, { date }: ReceiveOptions = {}): OperationUpdateItem {
+    if (!location?.id) {
+        throw new Error('location.id is required to receive items');
+    }
+
+    const entry = {
+        id: location.id,
+        name: location.name ?? location.id,
+        date: date === undefined ? new Date().toISOString() : date instanceof Date ? date.toISOString() : date,
+    };
+    return {
+        $set: { currentLocation: location },
+        $unset: { transitTo: '' },
+        $push: { locationHistory: entry },
+    };
+}
+
+/**
+ * Location history entries with their dates as Date objects, oldest first
+ */
+export function hydrateLocationHistory(entries: any[] | undefined): LocationHistoryEntry[] {
+    return (entries ?? [])
+        .map(entry => ({ id: entry.id, name: entry.name, date: new Date(entry.date) }))
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
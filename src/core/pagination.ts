@@ -0,0 +1,46 @@
+import type { OperationQuery, OperationRequestOptions } from '../types/operations';
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Turn an `after` cursor into an id condition and the matching id sort.
+ * Items are paged in id order, ascending unless the sort asks for `id: -1`.
+ * An `after` key without a value marks the first page, it is sorted on id too
+ * so that later pages continue where it stopped.
+ */
+export function applyCursor(
+    query: OperationQuery,
+    options?: OperationRequestOptions
+): { query: OperationQuery; options?: OperationRequestOptions } {
+    if (!options || !('after' in options)) {
+        return { query, options };
+    }
+
+    const { after, ...rest } = options;
+    const sortKeys = Object.keys(rest.sort ?? {});
+    if (sortKeys.some(key => key !== 'id')) {
+        throw new Error('after can only be combined with a sort on id');
+    }
+
+    const direction = rest.sort?.id ?? 1;
+    const sortedOptions = { ...rest, sort: { id: direction } };
+    if (after === undefined) {
+        return { query, options: sortedOptions };
+    }
+
+    const condition: OperationQuery = { id: direction === 1 ? { $gt: after } : { $lt: after } };
+    return {
+        query: Object.keys(query).length > 0 ? { $and: [query, condition] } : condition,
+        options: sortedOptions,
+    };
+}
+
+/**
+ * Check the page size of findPages and findIterator
+ */
+export function resolvePageSize(pageSize: number = DEFAULT_PAGE_SIZE): number {
+    if (!Number.isInteger(pageSize) || pageSize <= 0) {
+        throw new Error('pageSize must be a positive integer');
+    }
+    return pageSize;
+}
@@ -8,28 +8,141 @@ import type {
     OperationAggregatePipeline,
     OperationMatchStage,
     OperationRequestOptions,
+    OperationClientOptions,
+    OperationPageOptions,
+    OperationLocation,
     OperationDeleteResult,
     OperationUpdateResult,
-    OperationInsertResult
+    OperationInsertResult,
+    OperationBulkWriteOptions,
+    OperationBulkWriteResult
 } from '../types/operations';
-import type { InventoryItem } from '../types/item';
-import { signRequest } from '../utils/sign-request';
+import type { InventoryItem, LocationHistoryEntry } from '../types/item';
+import type { OperationSelect, ProjectedItem, RawProjectedItem } from '../types/projection';
+import type { RaukClientConfig } from '../types/config';
+import { SignatureVersion, signRequest } from '../utils/sign-request';
+import { validateCreateItem, validateUpdateItem, validateBulkWrite, throwIfInvalid } from '../utils/validation';
+import { decodeResponse, encodeValue } from '../utils/codec';
+import { PipelineBuilder } from '../utils/pipeline-builder';
+import { ResponseValidationMode, verifyResponseShape } from '../utils/response-shape';
+import { matchesQuery } from '../utils/query-matcher';
+import { RaukTransport, createFetchTransport } from './transport';
+import { RaukCredentials, RaukCredentialProvider, resolveCredentialProvider } from './credentials';
+import { IDEMPOTENCY_KEY_HEADER, deriveIdempotencyKey, resolveIdempotencyKey } from './idempotency';
+import { applyCursor, resolvePageSize } from './pagination';
+import {
+    AvailabilityPlan,
+    AvailabilityTransitionResult,
+    ReserveOptions,
+    ReleaseReservationOptions,
+    MarkSoldOptions,
+    MarkProducedOptions,
+    planReserve,
+    planReleaseReservation,
+    planMarkSold,
+    planMarkProduced
+} from './availability';
+import {
+    DispatchOptions,
+    ReceiveOptions,
+    buildDispatchUpdate,
+    buildReceiveUpdate,
+    hydrateLocationHistory
+} from './movements';
+import {
+    BulkWriteChunk,
+    BulkWriteChunkingOptions,
+    chunkBulkWrite,
+    mergeBulkWriteResults,
+    resolveChunking,
+    runWithConcurrency,
+    toBulkWriteResult
+} from './bulk-write';
+import {
+    StockOnHandRow,
+    AvailabilityByBrandRow,
+    InTransitByClientRow,
+    QuantityByFactoryRow,
+    stockOnHandPipeline,
+    availabilityByBrandPipeline,
+    inTransitByClientPipeline,
+    quantityByFactoryPipeline
+} from './reports';
+import {
+    MiddlewareChain,
+    RaukMiddleware,
+    RaukRequestContext,
+    RaukResponseContext,
+    RaukErrorContext
+} from './middleware';
 import {
     parseApiError,
     RaukValidationError,
     RaukAuthenticationError,
     RaukNetworkError,
+    RaukTimeoutError,
+    RaukAbortError,
     RaukError,
     RaukApiErrorResponse,
-    isValidationError
+    RaukConflictError,
+    RaukNotFoundError,
+    ConflictDetail,
+    RaukBulkWriteError,
+    isRaukError,
+    isValidationError,
+    isAuthenticationError,
+    isBulkWriteError
 } from '../utils/errors';
+import {
+    RetryPolicy,
+    resolveRetryPolicy,
+    getMaxAttempts,
+    isRetryableError,
+    getRetryDelay,
+    sleep
+} from '../utils/retry';
+
+const CLIENT_OPTION_KEYS: readonly (keyof OperationClientOptions)[] = ['signal', 'timeoutMs', 'raw', 'idempotencyKey'];
+
+/**
+ * Split request options into the part sent to the API and the part handled by the client
+ */
+function splitRequestOptions(options?: OperationRequestOptions): {
+    apiOptions?: Record<string, any>;
+    clientOptions: OperationClientOptions;
+} {
+    if (!options) {
+        return { clientOptions: {} };
+    }
+
+    const apiOptions: Record<string, any> = { ...options };
+    const clientOptions: Record<string, any> = {};
+    for (const key of CLIENT_OPTION_KEYS) {
+        if (key in apiOptions) {
+            clientOptions[key] = apiOptions[key];
+            delete apiOptions[key];
+        }
+    }
+
+    // Options that only carried client settings are not sent at all
+    const onlyClientOptions = Object.keys(apiOptions).length === 0 && Object.keys(clientOptions).length > 0;
+    return { apiOptions: onlyClientOptions ? undefined : apiOptions, clientOptions };
+}
 
 class RaukInventoryClient {
 
-    protected apiKeyId: string;
-    protected apiSecret: string;
-    protected apiPublicKey: string;
+    protected credentials: RaukCredentialProvider;
     protected apiBaseUrl: string;
+    protected retryPolicy: RetryPolicy | null;
+    protected timeoutMs?: number;
+    protected transport: RaukTransport;
+    protected middleware: MiddlewareChain;
+    protected validate: boolean;
+    protected raw: boolean;
+    protected responseValidation: ResponseValidationMode;
+    protected bulkWriteChunking?: BulkWriteChunkingOptions;
+    protected signatureVersion: SignatureVersion;
+    private disposed = false;
 
     /**
     * Constructor for RaukInventory
@@ -37,57 +150,254 @@ class RaukInventoryClient {
     * @param config.apiKeyId - API key ID
     * @param config.apiSecret - API secret
     * @param config.apiPublicKey - API public key
+    * @param config.credentials - Credential provider optional, consulted before every request attempt instead of the key strings
     * @param config.apiBaseUrl - API base URL optional, will default to the standard Rauk Inventory API endpoint
+    * @param config.retry - Retry policy optional, `true` for the default policy, disabled when omitted
+    * @param config.timeoutMs - Default timeout for every request attempt optional, no timeout when omitted
+    * @param config.transport - Transport optional, takes precedence over config.fetch
+    * @param config.fetch - Fetch implementation optional, defaults to the global fetch
+    * @param config.middleware - Middleware optional, run around every request attempt in the given order
+    * @param config.validate - Validate create and update payloads locally before sending them optional, defaults to false
+    * @param config.raw - Return the JSON received from the API without converting dates and maps optional, defaults to false
+    * @param config.responseValidation - Verify the shape of responses optional, "warn" logs mismatches and "strict" throws, defaults to "off"
+    * @param config.bulkWriteChunking - Split large bulk writes into several requests optional, defaults to 1000 operations or 1 MiB per request
+    * @param config.signatureVersion - Signature scheme optional, "v2" adds a nonce, the method and the path to the signature, defaults to "v1"
     */
     constructor({
         apiKeyId,
         apiSecret,
         apiPublicKey,
+        credentials,
         apiBaseUrl = 'https://inventory.rauk.app',
-    }: {
-        apiKeyId: string;
-        apiSecret: string;
-        apiPublicKey: string;
-        apiBaseUrl?: string;
-    }) {
-        if (!apiKeyId || !apiSecret || !apiPublicKey) {
-            throw new Error('apiKeyId, apiSecret and apiPublicKey are required');
-        }
-
-        this.apiKeyId = apiKeyId;
-        this.apiSecret = apiSecret;
-        this.apiPublicKey = apiPublicKey;
+        retry,
+        timeoutMs,
+        transport,
+        fetch: fetchImpl,
+        middleware = [],
+        validate = false,
+        raw = false,
+        responseValidation = 'off',
+        bulkWriteChunking,
+        signatureVersion = 'v1',
+    }: RaukClientConfig) {
+        this.credentials = resolveCredentialProvider({ apiKeyId, apiSecret, apiPublicKey, credentials });
         this.apiBaseUrl = apiBaseUrl;
+        this.retryPolicy = resolveRetryPolicy(retry);
+        this.timeoutMs = timeoutMs;
+        this.transport = transport ?? createFetchTransport(fetchImpl);
+        this.middleware = new MiddlewareChain(middleware);
+        this.validate = validate;
+        this.raw = raw;
+        this.responseValidation = responseValidation;
+        this.bulkWriteChunking = bulkWriteChunking;
+        this.signatureVersion = signatureVersion;
 
     }
 
-    public setConfig(config: {
-        apiKeyId: string;
-        apiSecret: string;
-        apiPublicKey: string;
-        apiBaseUrl?: string;
-    }) {
-        this.apiKeyId = config.apiKeyId;
-        this.apiSecret = config.apiSecret;
-        this.apiPublicKey = config.apiPublicKey;
-        this.apiBaseUrl = config.apiBaseUrl || 'https://inventory.rauk.app';
+    /**
+    * Update the configuration, options left out keep their current value
+    * @param config - Configuration object, the credentials are replaced when credentials or any key string is given
+    */
+    public setConfig(config: RaukClientConfig) {
+        const { apiKeyId, apiSecret, apiPublicKey, credentials } = config;
+        if (credentials || apiKeyId !== undefined || apiSecret !== undefined || apiPublicKey !== undefined) {
+            // Swapped in a single assignment, attempts already signed keep the credentials they were signed with
+            this.credentials = resolveCredentialProvider({ apiKeyId, apiSecret, apiPublicKey, credentials });
+        }
+        if (config.apiBaseUrl !== undefined) {
+            this.apiBaseUrl = config.apiBaseUrl;
+        }
+        if (config.retry !== undefined) {
+            this.retryPolicy = resolveRetryPolicy(config.retry);
+        }
+        if (config.timeoutMs !== undefined) {
+            this.timeoutMs = config.timeoutMs;
+        }
+        if (config.validate !== undefined) {
+            this.validate = config.validate;
+        }
+        if (config.raw !== undefined) {
+            this.raw = config.raw;
+        }
+        if (config.responseValidation !== undefined) {
+            this.responseValidation = config.responseValidation;
+        }
+        if (config.bulkWriteChunking !== undefined) {
+            this.bulkWriteChunking = config.bulkWriteChunking;
+        }
+        if (config.signatureVersion !== undefined) {
+            this.signatureVersion = config.signatureVersion;
+        }
+        if (config.transport || config.fetch) {
+            this.transport = config.transport ?? createFetchTransport(config.fetch);
+        }
+        if (config.middleware !== undefined) {
+            // Replaces the whole chain, middleware added with useMiddleware included
+            this.middleware = new MiddlewareChain(config.middleware);
+        }
+    }
+
+    /**
+     * Stop accepting requests, requests already sent are left to complete.
+     * Used when a client is removed from or replaced in the RaukInventory registry,
+     * so references kept to the old client fail instead of using stale credentials.
+     */
+    public dispose(): void {
+        this.disposed = true;
     }
-    protected async request<T = any>(requestArray: any[]): Promise<T> {
-        const signedRequest = signRequest({
-            apiKeyId: this.apiKeyId,
-            apiSecret: this.apiSecret,
-            apiPublicKey: this.apiPublicKey,
-        }, requestArray);
 
+    public get isDisposed(): boolean {
+        return this.disposed;
+    }
+
+    /**
+     * Send a request, retrying it according to the configured retry policy.
+     * Every attempt is signed again so the signature timestamp stays fresh.
+     * A request refused with an authentication error is retried once after refreshing the credentials,
+     * that retry does not count against the attempts of the retry policy.
+     * Writes carry the same idempotency key on every attempt, generated when retries are enabled.
+     * Dates and maps are encoded before sending and decoded in the response unless raw is set.
+     * @param args - The operation name followed by its arguments
+     * @param options - Request options, client-side options are stripped before sending
+     */
+    protected async request<T = any>(args: any[], options?: OperationRequestOptions): Promise<T> {
+        if (this.disposed) {
+            throw new RaukError('RaukInventoryClient has been disposed', {
+                timestamp: new Date().toISOString(),
+                context: { operation: args[0] }
+            });
+        }
+
+        const { apiOptions, clientOptions: callerOptions } = splitRequestOptions(options);
+        const requestArray = encodeValue(apiOptions ? [...args, apiOptions] : args);
+        const policy = this.retryPolicy;
+        const idempotencyKey = resolveIdempotencyKey(requestArray[0], callerOptions.idempotencyKey, policy !== null);
+        const clientOptions: OperationClientOptions = { ...callerOptions, idempotencyKey };
+        const maxAttempts = getMaxAttempts(policy, requestArray[0], callerOptions.idempotencyKey);
+        const raw = clientOptions.raw ?? this.raw;
+        let credentialsRefreshed = false;
+        let attempt = 1;
+
+        for (;;) {
+            let data: T;
+            try {
+                data = await this.sendRequest<T>(requestArray, clientOptions, attempt);
+            } catch (error) {
+                // The keys may have been rotated, the refused request was not processed and is safe to send again
+                const credentials = this.credentials;
+                if (isAuthenticationError(error) && credentials.refresh && !credentialsRefreshed) {
+                    credentialsRefreshed = true;
+                    await credentials.refresh();
+                    continue;
+                }
+                if (!policy || attempt >= maxAttempts || !isRetryableError(error, policy)) {
+                    throw error;
+                }
+                const delay = getRetryDelay(policy, attempt, error);
+                if (delay === undefined) {
+                    throw error;
+                }
+                await sleep(delay, clientOptions.signal);
+                attempt++;
+                continue;
+            }
+
+            verifyResponseShape(this.responseValidation, requestArray[0], data, apiOptions?.select !== undefined);
+            return raw ? data : decodeResponse(requestArray[0], data);
+        }
+    }
+
+    protected async sendRequest<T = any>(
+        requestArray: any[],
+        clientOptions: OperationClientOptions = {},
+        attempt: number = 1
+    ): Promise<T> {
+        const { signal } = clientOptions;
+        const timeoutMs = clientOptions.timeoutMs ?? this.timeoutMs;
+
+        if (signal?.aborted) {
+            throw this.createAbortError(signal);
+        }
+
+        let credentials: RaukCredentials;
         try {
-            const response = await fetch(`${this.apiBaseUrl}/query`, {
+            credentials = await this.credentials.getCredentials();
+        } catch (error) {
+            throw new RaukError('Failed to load API credentials', {
+                timestamp: new Date().toISOString(),
+                context: {
+                    operation: requestArray[0],
+                    originalError: error instanceof Error ? error.message : String(error)
+                }
+            });
+        }
+        const url = `${this.apiBaseUrl}/query`;
+        const signedRequest = signRequest(credentials, requestArray, {
+            version: this.signatureVersion,
+            method: 'POST',
+            path: new URL(url).pathname,
+        });
+
+        const context: RaukRequestContext = {
+            operation: requestArray[0],
+            requestArray,
+            url,
+            headers: {
+                'Rai-Signature': signedRequest,
+                'Content-Type': 'application/json',
+                ...(clientOptions.idempotencyKey !== undefined ? { [IDEMPOTENCY_KEY_HEADER]: clientOptions.idempotencyKey } : {}),
+            },
+            attempt,
+            metadata: {},
+        };
+
+        // A single controller aborts the fetch on either the caller's signal or the timeout
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        let timedOut = false;
+        const timer = timeoutMs !== undefined && timeoutMs > 0
+            ? setTimeout(() => {
+                timedOut = true;
+                controller.abort();
+            }, timeoutMs)
+            : undefined;
+
+        const startedAt = performance.now();
+        let status: number | undefined;
+
+        try {
+            // Failing hooks reach the onError hooks like any other failed attempt
+            try {
+                await this.middleware.runRequest(context);
+            } catch (error) {
+                if (error instanceof RaukError) {
+                    throw error;
+                }
+                throw new RaukError('onRequest middleware failed', {
+                    statusCode: 0,
+                    timestamp: new Date().toISOString(),
+                    context: {
+                        operation: requestArray[0],
+                        originalError: error instanceof Error ? error.message : String(error)
+                    }
+                });
+            }
+
+            // The signal may have been aborted while the onRequest hooks were running
+            if (signal?.aborted) {
+                throw this.createAbortError(signal);
+            }
+
+            const response = await this.transport.send({
+                url: context.url,
                 method: 'POST',
                 body: JSON.stringify(requestArray),
-                headers: {
-                    'Rai-Signature': signedRequest,
-                    'Content-Type': 'application/json',
-                },
+                headers: context.headers,
+                signal: controller.signal,
             });
+            status = response.status;
 
             if (!response.ok) {
                 let errorBody: RaukApiErrorResponse;
@@ -108,37 +418,107 @@ class RaukInventoryClient {
                 throw parseApiError(response, errorBody);
             }
 
-            return await response.json();
+            const responseContext: RaukResponseContext = {
+                ...context,
+                status: response.status,
+                latencyMs: performance.now() - startedAt,
+                data: await response.json(),
+            };
+            await this.middleware.runResponse(responseContext);
+            return responseContext.data;
         } catch (error) {
-            // Re-throw Rauk errors as-is
-            if (error instanceof RaukError) {
-                throw error;
-            }
+            const errorContext: RaukErrorContext = {
+                ...context,
+                status,
+                latencyMs: performance.now() - startedAt,
+                error: this.toRaukError(error, { timedOut, timeoutMs, signal }),
+            };
+            await this.middleware.runError(errorContext);
+            throw errorContext.error;
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        }
+    }
 
-            // Handle network errors (fetch failures, DNS issues, etc.)
-            if (error instanceof TypeError && error.message.includes('fetch')) {
-                throw new RaukNetworkError(
-                    'Network request failed - check your internet connection and API endpoint',
-                    {
-                        statusCode: 0,
-                        timestamp: new Date().toISOString(),
-                        context: { originalError: error.message }
-                    },
-                    undefined // No original API response for network errors
-                );
-            }
+    /**
+     * Convert anything thrown while sending a request into a Rauk error
+     */
+    private toRaukError(
+        error: unknown,
+        { timedOut, timeoutMs, signal }: { timedOut: boolean; timeoutMs?: number; signal?: AbortSignal }
+    ): RaukError {
+        // Rauk errors are kept as-is
+        if (error instanceof RaukError) {
+            return error;
+        }
 
-            // Handle other unexpected errors
-            throw new RaukError(
-                'Unexpected error occurred during API request',
+        if (timedOut) {
+            return new RaukTimeoutError(
+                `Request timed out after ${timeoutMs}ms`,
                 {
                     statusCode: 0,
                     timestamp: new Date().toISOString(),
-                    context: { originalError: error instanceof Error ? error.message : String(error) }
+                    context: { timeoutMs }
+                }
+            );
+        }
+
+        if (signal?.aborted) {
+            return this.createAbortError(signal);
+        }
+
+        // Handle network errors (fetch failures, DNS issues, etc.)
+        if (error instanceof TypeError && error.message.includes('fetch')) {
+            return new RaukNetworkError(
+                'Network request failed - check your internet connection and API endpoint',
+                {
+                    statusCode: 0,
+                    timestamp: new Date().toISOString(),
+                    context: { originalError: error.message }
                 },
-                undefined // No original API response for unexpected errors
+                undefined // No original API response for network errors
             );
         }
+
+        // Handle other unexpected errors
+        return new RaukError(
+            'Unexpected error occurred during API request',
+            {
+                statusCode: 0,
+                timestamp: new Date().toISOString(),
+                context: { originalError: error instanceof Error ? error.message : String(error) }
+            },
+            undefined // No original API response for unexpected errors
+        );
+    }
+
+    private createAbortError(signal: AbortSignal): RaukAbortError {
+        return new RaukAbortError(
+            'Request was aborted',
+            {
+                statusCode: 0,
+                timestamp: new Date().toISOString(),
+                context: signal.reason !== undefined ? { reason: String(signal.reason) } : undefined
+            }
+        );
+    }
+
+    /**
+     * Register a middleware running around every request attempt
+     * @returns A function removing the middleware again
+     * @example
+     * const remove = raukInventory.useMiddleware({
+     *   onRequest: (context) => {
+     *     context.headers['traceparent'] = currentTraceParent();
+     *   },
+     *   onResponse: ({ operation, status, latencyMs }) => {
+     *     metrics.timing(`rauk.${operation}`, latencyMs, { status });
+     *   }
+     * });
+     */
+    public useMiddleware(middleware: RaukMiddleware): () => void {
+        return this.middleware.add(middleware);
     }
 
     /**
@@ -169,11 +549,14 @@ class RaukInventoryClient {
      *   select: { sku: 1, color: 1 }
      * });
      */
-    public async create(item: OperationCreateItem, options?: OperationRequestOptions): Promise<InventoryItem> {
-        const requestArray = options
-            ? ["insertOne", item, options]
-            : ["insertOne", item];
-        return this.request<InventoryItem>(requestArray);
+    public async create<S extends OperationSelect = {}>(
+        item: OperationCreateItem,
+        options?: OperationRequestOptions<S>
+    ): Promise<ProjectedItem<S>> {
+        if (this.validate) {
+            throwIfInvalid(validateCreateItem(item));
+        }
+        return this.request<ProjectedItem<S>>(["insertOne", item], options);
     }
 
     /**
@@ -193,12 +576,87 @@ class RaukInventoryClient {
      *   sort: { createdAt: -1 },
      *   select: { sku: 1, packageQuantity: 1, color: 1 }
      * });
+     *
+     * // Continue after the last item of a previous page
+     * const next = await raukInventory.find({
+     *   entities: { factoryId: "factory-789" }
+     * }, {
+     *   after: items[items.length - 1].id,
+     *   limit: 20
+     * });
+     *
+     * // Skip decoding, dates stay ISO strings and maps plain objects
+     * const wire = await raukInventory.find({ sku: "ITEM-001" }, { raw: true });
+     */
+    public async find<S extends OperationSelect = {}>(
+        query: OperationQuery,
+        options: OperationRequestOptions<S> & { raw: true }
+    ): Promise<RawProjectedItem<S>[]>;
+    public async find<S extends OperationSelect = {}>(
+        query: OperationQuery,
+        options?: OperationRequestOptions<S>
+    ): Promise<ProjectedItem<S>[]>;
+    public async find<S extends OperationSelect = {}>(
+        query: OperationQuery,
+        options?: OperationRequestOptions<S>
+    ): Promise<ProjectedItem<S>[] | RawProjectedItem<S>[]> {
+        const cursor = applyCursor(query, options);
+        return this.request<ProjectedItem<S>[]>(["find", cursor.query], cursor.options);
+    }
+
+    /**
+     * Lazily fetch every matching inventory item, one page at a time, in id order
+     * @example
+     * // Process a factory's inventory 500 items at a time
+     * for await (const page of raukInventory.findPages(
+     *   { entities: { factoryId: "factory-789" } },
+     *   { pageSize: 500 }
+     * )) {
+     *   await processBatch(page);
+     * }
      */
-    public async find(query: OperationQuery, options?: OperationRequestOptions): Promise<InventoryItem[]> {
-        const requestArray = options
-            ? ["find", query, options]
-            : ["find", query];
-        return this.request<InventoryItem[]>(requestArray);
+    public async *findPages<S extends OperationSelect = {}>(
+        query: OperationQuery,
+        options: OperationPageOptions<S> = {}
+    ): AsyncIterableIterator<ProjectedItem<S>[]> {
+        const { pageSize: requestedPageSize, ...findOptions } = options;
+        const pageSize = resolvePageSize(requestedPageSize);
+        let after = findOptions.after;
+
+        while (true) {
+            const page = await this.find(query, { ...findOptions, after, limit: pageSize });
+            if (page.length > 0) {
+                yield page;
+            }
+            if (page.length < pageSize) {
+                return;
+            }
+
+            after = (page[page.length - 1] as { id?: string }).id;
+            if (after === undefined) {
+                throw new Error('findPages needs the id field in the selected fields to fetch the next page');
+            }
+        }
+    }
+
+    /**
+     * Lazily iterate over every matching inventory item, fetching pages as needed
+     * @example
+     * // Walk a factory's full inventory with bounded memory
+     * for await (const item of raukInventory.findIterator(
+     *   { entities: { factoryId: "factory-789" } },
+     *   { pageSize: 200, select: { sku: 1, packageQuantity: 1 } }
+     * )) {
+     *   total += item.packageQuantity;
+     * }
+     */
+    public async *findIterator<S extends OperationSelect = {}>(
+        query: OperationQuery,
+        options: OperationPageOptions<S> = {}
+    ): AsyncIterableIterator<ProjectedItem<S>> {
+        for await (const page of this.findPages(query, options)) {
+            yield* page;
+        }
     }
 
     /**
@@ -216,7 +674,18 @@ class RaukInventoryClient {
      *   select: { sku: 1, color: 1, packageQuantity: 1 }
      * });
      */
-    public async findOne(query: OperationQuery, options?: OperationRequestOptions): Promise<InventoryItem | null> {
+    public async findOne<S extends OperationSelect = {}>(
+        query: OperationQuery,
+        options: OperationRequestOptions<S> & { raw: true }
+    ): Promise<RawProjectedItem<S> | null>;
+    public async findOne<S extends OperationSelect = {}>(
+        query: OperationQuery,
+        options?: OperationRequestOptions<S>
+    ): Promise<ProjectedItem<S> | null>;
+    public async findOne<S extends OperationSelect = {}>(
+        query: OperationQuery,
+        options?: OperationRequestOptions<S>
+    ): Promise<ProjectedItem<S> | RawProjectedItem<S> | null> {
         const results = await this.find(query, { ...options, limit: 1 });
         return results.length > 0 ? results[0] : null;
     }
@@ -243,10 +712,10 @@ class RaukInventoryClient {
         update: OperationUpdateItem,
         options?: OperationRequestOptions
     ): Promise<OperationUpdateResult> {
-        const requestArray = options
-            ? ["findOneAndUpdate", query, update, options]
-            : ["findOneAndUpdate", query, update];
-        return this.request<OperationUpdateResult>(requestArray);
+        if (this.validate) {
+            throwIfInvalid(validateUpdateItem(update));
+        }
+        return this.request<OperationUpdateResult>(["findOneAndUpdate", query, update], options);
     }
 
     /**
@@ -265,26 +734,34 @@ class RaukInventoryClient {
      * });
      */
     public async delete(query: OperationQuery, options?: OperationRequestOptions): Promise<OperationDeleteResult> {
-        const requestArray = options
-            ? ["findOneAndUpdate", query, { deleted: { status: true } }, options]
-            : ["findOneAndUpdate", query, { deleted: { status: true } }];
-        return this.request<OperationDeleteResult>(requestArray);
+        return this.request<OperationDeleteResult>(["findOneAndUpdate", query, { deleted: { status: true } }], options);
     }
 
     /**
-     * Perform aggregation operations
+     * Perform aggregation operations, results are typed when the pipeline comes from a PipelineBuilder
      * @example
      * await raukInventory.aggregate([
      *   { $match: { "entities.factoryId": "factory-123" } },
      *   { $group: { _id: "$sku", count: { $sum: 1 } } },
      *   { $sort: { count: -1 } }
      * ]);
+     *
+     * // Resolves with { _id: string; count: number }[]
+     * await raukInventory.aggregate(
+     *   pipeline()
+     *     .match({ "entities.factoryId": "factory-123" })
+     *     .group("$sku", { count: { $sum: 1 } })
+     *     .sort({ count: -1 })
+     * );
      */
-    public async aggregate(pipeline: OperationAggregatePipeline, options?: OperationRequestOptions): Promise<any[]> {
-        const requestArray = options
-            ? ["aggregate", pipeline, options]
-            : ["aggregate", pipeline];
-        return this.request<any[]>(requestArray);
+    public async aggregate<T>(pipeline: PipelineBuilder<T>, options?: OperationRequestOptions): Promise<T[]>;
+    public async aggregate(pipeline: OperationAggregatePipeline, options?: OperationRequestOptions): Promise<any[]>;
+    public async aggregate(
+        pipeline: OperationAggregatePipeline | PipelineBuilder<any>,
+        options?: OperationRequestOptions
+    ): Promise<any[]> {
+        const stages = pipeline instanceof PipelineBuilder ? pipeline.build() : pipeline;
+        return this.request<any[]>(["aggregate", stages], options);
     }
 
     /**
@@ -308,12 +785,86 @@ class RaukInventoryClient {
      * const result = await raukInventory.bulkWrite(operations, {
      *   includeDeleted: false
      * });
+     *
+     * // Retry only what did not go through
+     * try {
+     *   await raukInventory.bulkWrite(operations);
+     * } catch (error) {
+     *   if (isBulkWriteError(error)) {
+     *     await raukInventory.bulkWrite(error.getRetryOperations());
+     *   }
+     * }
+     * @throws RaukBulkWriteError when some operations failed, with what was written in error.result
      */
-    public async bulkWrite(operations: OperationBulkWrite, options?: OperationRequestOptions): Promise<any> {
-        const requestArray = options
-            ? ["bulkWrite", operations, options]
-            : ["bulkWrite", operations];
-        return this.request<any>(requestArray);
+    public async bulkWrite(operations: OperationBulkWrite, options?: OperationBulkWriteOptions): Promise<OperationBulkWriteResult> {
+        if (this.validate) {
+            throwIfInvalid(validateBulkWrite(operations));
+        }
+
+        const { chunking, ...requestOptions } = options ?? {};
+        const { concurrency, ...limits } = resolveChunking(this.bulkWriteChunking, chunking);
+        const ordered = requestOptions.ordered ?? true;
+        const chunks = chunkBulkWrite(operations, limits);
+        // Every chunk is a request of its own and needs its own key, derived from the caller's one
+        const chunkOptions = (chunk: BulkWriteChunk) => chunks.length > 1
+            ? deriveIdempotencyKey(requestOptions, chunk.offset)
+            : requestOptions;
+
+        const parts: { offset: number; result: OperationBulkWriteResult }[] = [];
+        const failures: { chunk: BulkWriteChunk; error: unknown }[] = [];
+        let bulkWriteError: RaukBulkWriteError | undefined;
+
+        // Ordered bulk writes send one chunk at a time and stop at the first failure, like the API does within a request
+        await runWithConcurrency(chunks, ordered ? 1 : concurrency, async chunk => {
+            try {
+                const result = toBulkWriteResult(await this.request<any>(["bulkWrite", chunk.operations], chunkOptions(chunk)));
+                parts.push({ offset: chunk.offset, result });
+                return !ordered || result.writeErrors.length === 0;
+            } catch (error) {
+                if (isBulkWriteError(error)) {
+                    bulkWriteError = error;
+                    parts.push({ offset: chunk.offset, result: error.result });
+                } else {
+                    failures.push({ chunk, error });
+                }
+                return !ordered;
+            }
+        });
+
+        // Nothing reached the API, fail the way a single request would
+        if (parts.length === 0 && failures.length > 0) {
+            throw failures[0].error;
+        }
+
+        // Chunks that failed as a whole report every one of their operations as failed
+        const result = mergeBulkWriteResults([
+            ...parts,
+            ...failures.map(({ chunk, error }) => ({
+                offset: chunk.offset,
+                result: toBulkWriteResult({}, chunk.operations.map((_, index) => ({
+                    index,
+                    code: isRaukError(error) ? error.statusCode : undefined,
+                    message: error instanceof Error ? error.message : String(error),
+                }))),
+            })),
+        ]);
+
+        if (result.writeErrors.length > 0) {
+            // A single request keeps the details of the API error
+            if (chunks.length === 1 && bulkWriteError) {
+                throw new RaukBulkWriteError(bulkWriteError.message, result, operations, ordered, {
+                    statusCode: bulkWriteError.statusCode,
+                    requestId: bulkWriteError.requestId,
+                    timestamp: bulkWriteError.timestamp,
+                    context: bulkWriteError.context,
+                }, bulkWriteError.originalError);
+            }
+            throw new RaukBulkWriteError(`${result.writeErrors.length} bulk write operation(s) failed`, result, operations, ordered, {
+                timestamp: new Date().toISOString(),
+                context: { operation: 'bulkWrite', chunks: chunks.length },
+            });
+        }
+        return result;
     }
 
     /**
@@ -337,10 +888,10 @@ class RaukInventoryClient {
         update: OperationUpdateItem,
         options?: OperationRequestOptions
     ): Promise<OperationUpdateResult> {
-        const requestArray = options
-            ? ["updateMany", query, update, options]
-            : ["updateMany", query, update];
-        return this.request<OperationUpdateResult>(requestArray);
+        if (this.validate) {
+            throwIfInvalid(validateUpdateItem(update));
+        }
+        return this.request<OperationUpdateResult>(["updateMany", query, update], options);
     }
 
     /**
@@ -359,10 +910,7 @@ class RaukInventoryClient {
      * });
      */
     public async deleteOne(query: OperationQuery, options?: OperationRequestOptions): Promise<OperationDeleteResult> {
-        const requestArray = options
-            ? ["deleteOne", query, options]
-            : ["deleteOne", query];
-        return this.request<OperationDeleteResult>(requestArray);
+        return this.request<OperationDeleteResult>(["deleteOne", query], options);
     }
 
     /**
@@ -381,10 +929,7 @@ class RaukInventoryClient {
      * });
      */
     public async deleteMany(query: OperationQuery, options?: OperationRequestOptions): Promise<OperationDeleteResult> {
-        const requestArray = options
-            ? ["deleteMany", query, options]
-            : ["deleteMany", query];
-        return this.request<OperationDeleteResult>(requestArray);
+        return this.request<OperationDeleteResult>(["deleteMany", query], options);
     }
 
 
@@ -400,7 +945,10 @@ class RaukInventoryClient {
      * ];
      * const result = await raukInventory.updateBatch(batchUpdates);
      */
-    public async updateBatch(updates: [OperationQuery, OperationUpdateItem][], options?: OperationRequestOptions): Promise<any> {
+    public async updateBatch(
+        updates: [OperationQuery, OperationUpdateItem][],
+        options?: OperationBulkWriteOptions
+    ): Promise<OperationBulkWriteResult> {
         const bulkOperations = updates.map(([query, update]) => ({
             updateOne: {
                 filter: query,
@@ -409,6 +957,248 @@ class RaukInventoryClient {
         }));
         return this.bulkWrite(bulkOperations, options);
     }
+
+    /**
+     * Reserve inventory items for an order
+     * Sold items and items reserved by another order are refused with a RaukConflictError
+     * @example
+     * // Hold two items for a checkout for 15 minutes
+     * const { changedIds } = await raukInventory.reserve(
+     *   { sku: "ITEM-001", "availability.reserved": { $exists: false } },
+     *   { orderId: "order-123", expiresAt: new Date(Date.now() + 15 * 60 * 1000) }
+     * );
+     */
+    public async reserve(
+        query: OperationQuery,
+        reservation: ReserveOptions,
+        options?: OperationClientOptions
+    ): Promise<AvailabilityTransitionResult> {
+        return this.transitionAvailability(query, planReserve(reservation), options);
+    }
+
+    /**
+     * Release the reservation of inventory items
+     * @example
+     * // Release everything held by an abandoned checkout
+     * await raukInventory.releaseReservation(
+     *   { "availability.reserved.orderId": "order-123" },
+     *   { orderId: "order-123" }
+     * );
+     */
+    public async releaseReservation(
+        query: OperationQuery,
+        release: ReleaseReservationOptions = {},
+        options?: OperationClientOptions
+    ): Promise<AvailabilityTransitionResult> {
+        return this.transitionAvailability(query, planReleaseReservation(release), options);
+    }
+
+    /**
+     * Mark inventory items as sold, clearing the reservation of the same order
+     * @example
+     * // Complete the sale of the items reserved by an order
+     * await raukInventory.markSold(
+     *   { "availability.reserved.orderId": "order-123" },
+     *   { orderId: "order-123" }
+     * );
+     */
+    public async markSold(
+        query: OperationQuery,
+        sale: MarkSoldOptions,
+        options?: OperationClientOptions
+    ): Promise<AvailabilityTransitionResult> {
+        return this.transitionAvailability(query, planMarkSold(sale), options);
+    }
+
+    /**
+     * Mark inventory items as produced
+     * @example
+     * // Record the production of a batch
+     * await raukInventory.markProduced(
+     *   { sku: "ITEM-001", "entities.factoryId": "factory-789" },
+     *   { orderId: "production-42" }
+     * );
+     */
+    public async markProduced(
+        query: OperationQuery,
+        production: MarkProducedOptions = {},
+        options?: OperationClientOptions
+    ): Promise<AvailabilityTransitionResult> {
+        return this.transitionAvailability(query, planMarkProduced(production), options);
+    }
+
+    /**
+     * Put inventory items in transit to a location or client
+     * @example
+     * // Ship a pallet to a store
+     * await raukInventory.dispatch(
+     *   { sku: "ITEM-001", "currentLocation.id": "warehouse-1" },
+     *   { to: "store-nyc", client: "client-42" }
+     * );
+     */
+    public async dispatch(
+        query: OperationQuery,
+        dispatch: DispatchOptions,
+        options?: OperationRequestOptions
+    ): Promise<OperationUpdateResult> {
+        return this.updateMany(query, buildDispatchUpdate(dispatch), options);
+    }
+
+    /**
+     * Receive inventory items at a location: sets currentLocation, clears transitTo
+     * and appends the movement to the location history
+     * @example
+     * // Receive everything in transit to the store
+     * await raukInventory.receive(
+     *   { "transitTo.id": "store-nyc" },
+     *   { id: "store-nyc", name: "New York Store" }
+     * );
+     */
+    public async receive(
+        query: OperationQuery,
+        location: OperationLocation,
+        options?: OperationRequestOptions & ReceiveOptions
+    ): Promise<OperationUpdateResult> {
+        const { date, ...requestOptions } = options ?? {};
+        const update = buildReceiveUpdate(location, { date });
+        return this.updateMany(query, update, Object.keys(requestOptions).length > 0 ? requestOptions : undefined);
+    }
+
+    /**
+     * Get the locations an inventory item went through, oldest first, with dates as Date objects
+     * @example
+     * const history = await raukInventory.getMovementHistory("68e7f70f8d21cb8e86067aff");
+     * history[0].date.toISOString();
+     */
+    public async getMovementHistory(itemId: string, options?: OperationClientOptions): Promise<LocationHistoryEntry[]> {
+        const item = await this.findOne({ id: itemId }, { ...options, select: { locationHistory: 1 } });
+        if (!item) {
+            throw new RaukNotFoundError(`Inventory item ${itemId} not found`, {
+                timestamp: new Date().toISOString(),
+                context: { itemId }
+            });
+        }
+        return hydrateLocationHistory(item.locationHistory);
+    }
+
+    /**
+     * Items on hand, neither sold nor in transit, per SKU and current location
+     * @param filter - Restricts the items counted, same syntax as find
+     * @example
+     * const rows = await raukInventory.getStockOnHand({ "entities.brandId": "brand-123" });
+     * // [{ sku: "ITEM-001", locationId: "warehouse-1", items: 12, quantity: 240 }, ...]
+     */
+    public async getStockOnHand(filter: OperationQuery = {}, options?: OperationRequestOptions): Promise<StockOnHandRow[]> {
+        return this.aggregate(stockOnHandPipeline(filter), options);
+    }
+
+    /**
+     * Produced, reserved and sold item counts per brand
+     * @param filter - Restricts the items counted, same syntax as find
+     * @example
+     * const rows = await raukInventory.getAvailabilityByBrand({ "entities.factoryId": "factory-789" });
+     * // [{ brandId: "brand-123", brandName: "Acme", items: 40, produced: 38, reserved: 6, sold: 12 }, ...]
+     */
+    public async getAvailabilityByBrand(filter: OperationQuery = {}, options?: OperationRequestOptions): Promise<AvailabilityByBrandRow[]> {
+        return this.aggregate(availabilityByBrandPipeline(filter), options);
+    }
+
+    /**
+     * Items in transit per client, with the locations they are sent to
+     * @param filter - Restricts the items counted, same syntax as find
+     * @example
+     * const rows = await raukInventory.getInTransitByClient({ "entities.brandId": "brand-123" });
+     * // [{ client: "client-42", destinations: ["store-nyc"], items: 3, quantity: 60 }, ...]
+     */
+    public async getInTransitByClient(filter: OperationQuery = {}, options?: OperationRequestOptions): Promise<InTransitByClientRow[]> {
+        return this.aggregate(inTransitByClientPipeline(filter), options);
+    }
+
+    /**
+     * Item count and packageQuantity total per factory
+     * @param filter - Restricts the items counted, same syntax as find
+     * @example
+     * const rows = await raukInventory.getQuantityByFactory({ "deleted.status": false });
+     * // [{ factoryId: "factory-789", factoryName: "Main Factory", items: 40, quantity: 800 }, ...]
+     */
+    public async getQuantityByFactory(filter: OperationQuery = {}, options?: OperationRequestOptions): Promise<QuantityByFactoryRow[]> {
+        return this.aggregate(quantityByFactoryPipeline(filter), options);
+    }
+
+    /**
+     * Apply an availability transition to every item matching the query.
+     * The matches are looked up page by page and updated in a single bulk write.
+     * Nothing is written when an item does not allow the transition; items changed concurrently
+     * are detected by the guard of their conditional update.
+     */
+    protected async transitionAvailability(
+        query: OperationQuery,
+        plan: AvailabilityPlan,
+        options?: OperationClientOptions
+    ): Promise<AvailabilityTransitionResult> {
+        const result: AvailabilityTransitionResult = { changedIds: [], unchangedIds: [] };
+        const pending: string[] = [];
+        const blocked: ConflictDetail[] = [];
+        for await (const page of this.findPages(query, { ...options, select: { id: 1, availability: 1 } })) {
+            for (const item of page) {
+                const reason = plan.conflict(item);
+                if (reason !== null) {
+                    blocked.push({ id: item.id, reason });
+                } else if (matchesQuery(item, plan.target)) {
+                    result.unchangedIds.push(item.id);
+                } else {
+                    pending.push(item.id);
+                }
+            }
+        }
+        if (blocked.length > 0) {
+            throw this.createConflictError(plan, blocked, []);
+        }
+        if (pending.length === 0) {
+            return result;
+        }
+
+        const operations: OperationBulkWrite = pending.map(id => ({
+            updateOne: { filter: { $and: [{ id }, plan.guard] }, update: plan.update },
+        }));
+        const { matchedCount } = await this.bulkWrite(operations, options);
+        if (matchedCount === pending.length) {
+            result.changedIds.push(...pending);
+            return result;
+        }
+
+        // Some guards no longer matched, the items in the target state are the ones written
+        const written = new Set<string>();
+        const target: OperationQuery = { $and: [{ id: { $in: pending } }, plan.target] };
+        for await (const page of this.findPages(target, { ...options, select: { id: 1 } })) {
+            page.forEach(item => written.add(item.id));
+        }
+        const lost: ConflictDetail[] = [];
+        for (const id of pending) {
+            if (written.has(id)) {
+                result.changedIds.push(id);
+            } else {
+                lost.push({ id, reason: 'changed by another request' });
+            }
+        }
+
+        if (lost.length > 0) {
+            throw this.createConflictError(plan, lost, result.changedIds);
+        }
+        return result;
+    }
+
+    private createConflictError(plan: AvailabilityPlan, conflicts: ConflictDetail[], changedIds: string[]): RaukConflictError {
+        const details = conflicts.map(conflict => `${conflict.id} ${conflict.reason}`).join('; ');
+        return new RaukConflictError(
+            `Cannot ${plan.transition} ${conflicts.length} item(s): ${details}`,
+            conflicts,
+            {
+                timestamp: new Date().toISOString(),
+                context: { transition: plan.transition, changedIds }
+            }
+        );
+    }
 }
 
 
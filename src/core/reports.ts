@@ -0,0 +1,130 @@
+import type { OperationQuery } from '../types/operations';
+import { PipelineBuilder, pipeline } from '../utils/pipeline-builder';
+
+export interface StockOnHandRow {
+    sku: string;
+    /** Id of the current location, null for items without one */
+    locationId: string | null;
+    /** Number of inventory items */
+    items: number;
+    /** Sum of their packageQuantity */
+    quantity: number;
+}
+
+export interface AvailabilityByBrandRow {
+    brandId: string;
+    brandName: string | null;
+    items: number;
+    produced: number;
+    reserved: number;
+    sold: number;
+}
+
+export interface InTransitByClientRow {
+    /** Client the items are sent to, null for transfers without a client */
+    client: string | null;
+    /** Ids of the locations the items are sent to */
+    destinations: string[];
+    items: number;
+    quantity: number;
+}
+
+export interface QuantityByFactoryRow {
+    factoryId: string;
+    factoryName: string | null;
+    items: number;
+    quantity: number;
+}
+
+// 1 for documents holding the availability state, 0 otherwise
+const countState = (state: 'produced' | 'reserved' | 'sold') =>
+    ({ $cond: [{ $ifNull: [`$availability.${state}`, false] }, 1, 0] }) as const;
+
+/**
+ * Items on hand, neither sold nor in transit, per SKU and current location
+ */
+export function stockOnHandPipeline(filter: OperationQuery = {}): PipelineBuilder<StockOnHandRow> {
+    return pipeline()
+        .match(filter)
+        .match({ 'availability.sold': { $exists: false }, 'transitTo.id': null })
+        .group({ sku: '$sku', location: '$currentLocation.id' }, {
+            items: { $sum: 1 },
+            quantity: { $sum: '$packageQuantity' },
+        })
+        .project({
+            _id: 0,
+            sku: '$_id.sku',
+            locationId: { $ifNull: ['$_id.location', null] },
+            items: '$items',
+            quantity: '$quantity',
+        })
+        .sort({ sku: 1, locationId: 1 });
+}
+
+/**
+ * Produced, reserved and sold item counts per brand
+ */
+export function availabilityByBrandPipeline(filter: OperationQuery = {}): PipelineBuilder<AvailabilityByBrandRow> {
+    return pipeline()
+        .match(filter)
+        .group('$entities.brandId', {
+            brandName: { $first: '$brandDetails.name' },
+            items: { $sum: 1 },
+            produced: { $sum: countState('produced') },
+            reserved: { $sum: countState('reserved') },
+            sold: { $sum: countState('sold') },
+        })
+        .project({
+            _id: 0,
+            brandId: '$_id',
+            brandName: { $ifNull: ['$brandName', null] },
+            items: '$items',
+            produced: '$produced',
+            reserved: '$reserved',
+            sold: '$sold',
+        })
+        .sort({ brandId: 1 });
+}
+
+/**
+ * Items in transit per client, with the locations they are sent to
+ */
+export function inTransitByClientPipeline(filter: OperationQuery = {}): PipelineBuilder<InTransitByClientRow> {
+    return pipeline()
+        .match(filter)
+        .match({ 'transitTo.id': { $ne: null } })
+        .group('$transitTo.client', {
+            destinations: { $addToSet: '$transitTo.id' },
+            items: { $sum: 1 },
+            quantity: { $sum: '$packageQuantity' },
+        })
+        .project({
+            _id: 0,
+            client: { $ifNull: ['$_id', null] },
+            destinations: '$destinations',
+            items: '$items',
+            quantity: '$quantity',
+        })
+        .sort({ client: 1 });
+}
+
+/**
+ * Item count and packageQuantity total per factory
+ */
+export function quantityByFactoryPipeline(filter: OperationQuery = {}): PipelineBuilder<QuantityByFactoryRow> {
+    return pipeline()
+        .match(filter)
+        .group('$entities.factoryId', {
+            factoryName: { $first: '$factoryDetails.name' },
+            items: { $sum: 1 },
+            quantity: { $sum: '$packageQuantity' },
+        })
+        .project({
+            _id: 0,
+            factoryId: '$_id',
+            factoryName: { $ifNull: ['$factoryName', null] },
+            items: '$items',
+            quantity: '$quantity',
+        })
+        .sort({ factoryId: 1 });
+}
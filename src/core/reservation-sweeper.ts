@@ -0,0 +1,194 @@
+import type { OperationBulkWrite, OperationClientOptions, OperationQuery } from '../types/operations';
+import type { RaukInventoryClient } from './rauk-client';
+import { deriveIdempotencyKey } from './idempotency';
+
+export interface ReservationSweeperOptions {
+    /** Reservations released per bulkWrite, defaults to 100 */
+    batchSize?: number;
+    /** Delay between two sweeps when started, defaults to one minute */
+    intervalMs?: number;
+    /** Clock deciding which reservations have expired */
+    now?: () => Date;
+    /** Called after every scheduled sweep */
+    onSweep?: (result: SweepResult) => void;
+    /** Called when a scheduled sweep fails, the sweeper keeps running */
+    onError?: (error: unknown) => void;
+}
+
+export interface SweptReservation {
+    id: string;
+    orderId?: string;
+    expiration: string;
+}
+
+export interface SweepResult {
+    /** Expired reservations released by this sweep */
+    released: SweptReservation[];
+    /** Expired reservations renewed or released by someone else while sweeping */
+    skipped: SweptReservation[];
+    batches: number;
+    sweptAt: string;
+}
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_INTERVAL_MS = 60_000;
+
+/**
+ * Releases temporary reservations whose expiration has passed, so abandoned checkouts do not lock stock.
+ * @example
+ * const sweeper = new ReservationSweeper(client, { intervalMs: 30_000, onSweep: result => log(result.released) });
+ * sweeper.start();
+ * // ...
+ * sweeper.stop();
+ */
+export class ReservationSweeper {
+    private readonly batchSize: number;
+    private readonly intervalMs: number;
+    private readonly now: () => Date;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private sweeping: Promise<SweepResult> | null = null;
+
+    constructor(
+        private readonly client: RaukInventoryClient,
+        private readonly options: ReservationSweeperOptions = {}
+    ) {
+        this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+        this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+        this.now = options.now ?? (() => new Date());
+
+        if (!Number.isInteger(this.batchSize) || this.batchSize <= 0) {
+            throw new Error('batchSize must be a positive integer');
+        }
+    }
+
+    /**
+     * Whether scheduled sweeps are running
+     */
+    public get running(): boolean {
+        return this.timer !== null;
+    }
+
+    /**
+     * Release every expired temporary reservation, one batch at a time
+     */
+    public async sweepOnce(options?: OperationClientOptions): Promise<SweepResult> {
+        // A sweep already in progress is shared instead of racing it
+        if (!this.sweeping) {
+            this.sweeping = this.sweep(options).finally(() => {
+                this.sweeping = null;
+            });
+        }
+        return this.sweeping;
+    }
+
+    /**
+     * Sweep now and then every intervalMs until stopped
+     */
+    public start(): void {
+        if (this.timer) {
+            return;
+        }
+        this.schedule(0);
+    }
+
+    public stop(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private schedule(delay: number): void {
+        this.timer = setTimeout(async () => {
+            try {
+                const result = await this.sweepOnce();
+                this.options.onSweep?.(result);
+            } catch (error) {
+                this.options.onError?.(error);
+            }
+            // stop() may have been called while sweeping
+            if (this.timer) {
+                this.schedule(this.intervalMs);
+            }
+        }, delay);
+        this.timer.unref?.();
+    }
+
+    private async sweep(options?: OperationClientOptions): Promise<SweepResult> {
+        const sweptAt = this.now().toISOString();
+        const expired: OperationQuery = {
+            'availability.reserved.temporary': true,
+            'availability.reserved.expiration': { $lt: sweptAt },
+        };
+        const result: SweepResult = { released: [], skipped: [], batches: 0, sweptAt };
+
+        while (true) {
+            // Raw JSON keeps the expiration exactly as stored, it is matched again when releasing
+            const items = await this.client.find(expired, {
+                ...options,
+                limit: this.batchSize,
+                select: { id: 1, 'availability.reserved': 1 },
+                raw: true,
+            });
+            if (items.length === 0) {
+                break;
+            }
+
+            // The query only matches reservations that have an expiration
+            const reservations = items.flatMap((item): SweptReservation[] => {
+                const reserved = item.availability?.reserved;
+                return reserved?.expiration === undefined
+                    ? []
+                    : [{ id: item.id, orderId: reserved.orderId, expiration: reserved.expiration }];
+            });
+            // Only release the reservation that was found, not one renewed in the meantime
+            const operations: OperationBulkWrite = reservations.map(reservation => ({
+                updateOne: {
+                    filter: {
+                        id: reservation.id,
+                        'availability.reserved.temporary': true,
+                        'availability.reserved.expiration': reservation.expiration,
+                    },
+                    update: { $unset: { 'availability.reserved': '' } },
+                },
+            }));
+
+            // Every batch is a bulk write of its own and needs a key of its own
+            const { modifiedCount } = await this.client.bulkWrite(operations, deriveIdempotencyKey(options, result.batches));
+            result.batches++;
+
+            if (modifiedCount === reservations.length) {
+                result.released.push(...reservations);
+            } else {
+                await this.splitPartialBatch(reservations, result, options);
+            }
+
+            if (items.length < this.batchSize || modifiedCount === 0) {
+                break;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Find out which reservations of a batch were left in place because they changed concurrently
+     */
+    private async splitPartialBatch(
+        reservations: SweptReservation[],
+        result: SweepResult,
+        options?: OperationClientOptions
+    ): Promise<void> {
+        const remaining = await this.client.find(
+            { id: { $in: reservations.map(reservation => reservation.id) } },
+            { ...options, select: { id: 1, 'availability.reserved': 1 }, raw: true }
+        );
+        const stillReserved = new Set(remaining
+            .filter(item => item.availability?.reserved)
+            .map(item => item.id));
+
+        for (const reservation of reservations) {
+            (stillReserved.has(reservation.id) ? result.skipped : result.released).push(reservation);
+        }
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * Request handed to a transport, already signed and serialized
+ */
+export interface RaukTransportRequest {
+    url: string;
+    method: 'POST';
+    headers: Record<string, string>;
+    body: string;
+    signal?: AbortSignal;
+}
+
+/**
+ * Minimal response contract a transport must fulfil, compatible with the fetch Response
+ */
+export interface RaukTransportResponse {
+    ok: boolean;
+    status: number;
+    statusText?: string;
+    headers?: {
+        get(name: string): string | null;
+    };
+    json(): Promise<any>;
+}
+
+/**
+ * Sends signed requests to the Rauk Inventory API.
+ * Implement it to route requests through proxies, custom agents, recorders or in-process stubs.
+ */
+export interface RaukTransport {
+    send(request: RaukTransportRequest): Promise<RaukTransportResponse>;
+}
+
+/**
+ * Create a transport backed by a fetch implementation
+ * @param fetchImpl - The fetch implementation to use, defaults to the global fetch at call time
+ * @example
+ * import { fetch, Agent } from "undici";
+ * const dispatcher = new Agent({ connect: { ca, cert, key } });
+ * const transport = createFetchTransport((url, init) => fetch(url, { ...init, dispatcher }));
+ */
+export function createFetchTransport(fetchImpl?: typeof fetch): RaukTransport {
+    return {
+        send: ({ url, method, headers, body, signal }) => {
+            const doFetch = fetchImpl ?? fetch;
+            return doFetch(url, { method, body, headers, signal });
+        },
+    };
+}
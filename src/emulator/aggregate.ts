@@ -0,0 +1,208 @@
+import { createQueryMatcher, getValueByPath, valuesEqual, compareValues } from '../utils/query-matcher';
+import { EmulatorDocument, projectDocument, createSortComparator, setValueByPath } from './documents';
+
+/**
+ * Evaluate an aggregation expression: "$field" references, literals, nested objects and a
+ * small set of operators ($add, $subtract, $multiply, $divide, $ifNull, $cond, $eq, $size, $concat)
+ */
+export function evaluateExpression(document: EmulatorDocument, expression: any): any {
+    if (typeof expression === 'string' && expression.startsWith('$')) {
+        return getValueByPath(document, expression.slice(1));
+    }
+    if (Array.isArray(expression)) {
+        return expression.map(entry => evaluateExpression(document, entry));
+    }
+    if (expression === null || typeof expression !== 'object') {
+        return expression;
+    }
+
+    const keys = Object.keys(expression);
+    if (keys.length === 1 && keys[0].startsWith('$')) {
+        const operator = keys[0];
+        const operand = expression[operator];
+        if (operator === '$literal') {
+            return operand;
+        }
+        const args = (Array.isArray(operand) ? operand : [operand]).map(entry => evaluateExpression(document, entry));
+        return evaluateOperator(operator, args);
+    }
+
+    return Object.fromEntries(keys.map(key => [key, evaluateExpression(document, expression[key])]));
+}
+
+function evaluateOperator(operator: string, args: any[]): any {
+    switch (operator) {
+        case '$add':
+            return args.reduce((total, value) => total + (value ?? 0), 0);
+        case '$subtract':
+            return (args[0] ?? 0) - (args[1] ?? 0);
+        case '$multiply':
+            return args.reduce((total, value) => total * (value ?? 0), 1);
+        case '$divide':
+            return args[1] ? args[0] / args[1] : null;
+        case '$ifNull':
+            return args.find(value => value !== null && value !== undefined) ?? null;
+        case '$cond':
+            return args[0] ? args[1] : args[2];
+        case '$eq':
+            return valuesEqual(args[0], args[1]);
+        case '$size':
+            return Array.isArray(args[0]) ? args[0].length : 0;
+        case '$concat':
+            return args.some(value => value === null || value === undefined) ? null : args.join('');
+        default:
+            throw new Error(`Unsupported aggregation operator ${operator}`);
+    }
+}
+
+type Accumulator = (documents: EmulatorDocument[], expression: any) => any;
+
+const ACCUMULATORS: Record<string, Accumulator> = {
+    $sum: (documents, expression) => documents.reduce((total, document) => {
+        const value = evaluateExpression(document, expression);
+        return total + (typeof value === 'number' ? value : 0);
+    }, 0),
+    $avg: (documents, expression) => {
+        const values = documents.map(document => evaluateExpression(document, expression)).filter(value => typeof value === 'number');
+        return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : null;
+    },
+    $min: (documents, expression) => extreme(documents, expression, order => order < 0),
+    $max: (documents, expression) => extreme(documents, expression, order => order > 0),
+    $first: (documents, expression) => documents.length > 0 ? evaluateExpression(documents[0], expression) ?? null : null,
+    $last: (documents, expression) => documents.length > 0 ? evaluateExpression(documents[documents.length - 1], expression) ?? null : null,
+    $push: (documents, expression) => documents.map(document => evaluateExpression(document, expression)),
+    $addToSet: (documents, expression) => documents
+        .map(document => evaluateExpression(document, expression))
+        .filter((value, index, values) => values.findIndex(other => valuesEqual(other, value)) === index),
+    $count: (documents) => documents.length,
+};
+
+function extreme(documents: EmulatorDocument[], expression: any, better: (order: number) => boolean): any {
+    let result: any = null;
+    for (const document of documents) {
+        const value = evaluateExpression(document, expression);
+        if (value === null || value === undefined) {
+            continue;
+        }
+        const order = result === null ? undefined : compareValues(value, result);
+        if (result === null || (order !== undefined && better(order))) {
+            result = value;
+        }
+    }
+    return result;
+}
+
+function groupStage(documents: EmulatorDocument[], spec: Record<string, any>): EmulatorDocument[] {
+    const groups: { key: any; documents: EmulatorDocument[] }[] = [];
+
+    for (const document of documents) {
+        const key = evaluateExpression(document, spec._id ?? null) ?? null;
+        const group = groups.find(entry => valuesEqual(entry.key, key));
+        if (group) {
+            group.documents.push(document);
+        } else {
+            groups.push({ key, documents: [document] });
+        }
+    }
+
+    return groups.map(({ key, documents: grouped }) => {
+        const output: EmulatorDocument = { _id: key };
+        for (const [field, accumulatorSpec] of Object.entries(spec)) {
+            if (field === '_id') {
+                continue;
+            }
+            const [operator] = Object.keys(accumulatorSpec ?? {});
+            const accumulate = ACCUMULATORS[operator];
+            if (!accumulate) {
+                throw new Error(`Unsupported $group accumulator ${operator}`);
+            }
+            output[field] = accumulate(grouped, accumulatorSpec[operator]);
+        }
+        return output;
+    });
+}
+
+function projectStage(documents: EmulatorDocument[], spec: Record<string, any>): EmulatorDocument[] {
+    const entries = Object.entries(spec);
+    const computed = entries.filter(([, value]) => typeof value !== 'number' && typeof value !== 'boolean');
+
+    if (computed.length === 0) {
+        return documents.map(document => projectDocument(document, spec));
+    }
+
+    // Mixed projection: inclusions are copied, everything else is evaluated as an expression
+    return documents.map(document => {
+        const inclusions = Object.fromEntries(entries.filter(([, value]) => value === 1 || value === true));
+        const projected = projectDocument(document, Object.keys(inclusions).length > 0 ? inclusions : { id: 1 });
+        for (const [field, expression] of computed) {
+            setValueByPath(projected, field, evaluateExpression(document, expression));
+        }
+        return projected;
+    });
+}
+
+function unwindStage(documents: EmulatorDocument[], spec: string | Record<string, any>): EmulatorDocument[] {
+    const options = typeof spec === 'string' ? { path: spec } : spec;
+    const path = options.path.replace(/^\$/, '');
+
+    return documents.flatMap(document => {
+        const value = getValueByPath(document, path);
+        if (!Array.isArray(value) || value.length === 0) {
+            if (!options.preserveNullAndEmptyArrays) {
+                return Array.isArray(value) || value === null || value === undefined ? [] : [document];
+            }
+            const preserved = structuredClone(document);
+            if (options.includeArrayIndex) {
+                preserved[options.includeArrayIndex] = null;
+            }
+            return [preserved];
+        }
+        return value.map((element, index) => {
+            const unwound = structuredClone(document);
+            setValueByPath(unwound, path, element);
+            if (options.includeArrayIndex) {
+                unwound[options.includeArrayIndex] = index;
+            }
+            return unwound;
+        });
+    });
+}
+
+/**
+ * Run an aggregation pipeline over a list of documents
+ */
+export function runPipeline(documents: EmulatorDocument[], pipeline: Record<string, any>[]): EmulatorDocument[] {
+    return pipeline.reduce<EmulatorDocument[]>((current, stage) => {
+        const [name] = Object.keys(stage);
+        const spec = stage[name];
+
+        switch (name) {
+            case '$match':
+                return current.filter(createQueryMatcher(spec));
+            case '$project':
+                return projectStage(current, spec);
+            case '$addFields':
+                return current.map(document => {
+                    const extended = structuredClone(document);
+                    for (const [field, expression] of Object.entries(spec)) {
+                        setValueByPath(extended, field, evaluateExpression(document, expression));
+                    }
+                    return extended;
+                });
+            case '$group':
+                return groupStage(current, spec);
+            case '$sort':
+                return [...current].sort(createSortComparator(spec));
+            case '$skip':
+                return current.slice(spec);
+            case '$limit':
+                return current.slice(0, spec);
+            case '$unwind':
+                return unwindStage(current, spec);
+            case '$count':
+                return current.length > 0 ? [{ [spec]: current.length }] : [];
+            default:
+                throw new Error(`Unsupported aggregation stage ${name}`);
+        }
+    }, documents);
+}
@@ -0,0 +1,89 @@
+import { getValueByPath, compareValues, valuesEqual } from '../utils/query-matcher';
+
+export type EmulatorDocument = Record<string, any>;
+
+/**
+ * Set a value by dot-notation path, creating intermediate objects
+ */
+export function setValueByPath(document: EmulatorDocument, path: string, value: any): void {
+    const segments = path.split('.');
+    let target: any = document;
+    for (const segment of segments.slice(0, -1)) {
+        if (target[segment] === null || typeof target[segment] !== 'object') {
+            target[segment] = {};
+        }
+        target = target[segment];
+    }
+    target[segments[segments.length - 1]] = value;
+}
+
+/**
+ * Remove a value by dot-notation path
+ */
+export function unsetValueByPath(document: EmulatorDocument, path: string): void {
+    const segments = path.split('.');
+    const parent = segments.length > 1 ? getValueByPath(document, segments.slice(0, -1).join('.')) : document;
+    if (parent !== null && typeof parent === 'object') {
+        delete parent[segments[segments.length - 1]];
+    }
+}
+
+/**
+ * Apply a select projection, either inclusive ({ sku: 1 }) or exclusive ({ sku: 0 })
+ */
+export function projectDocument(document: EmulatorDocument, select?: Record<string, 0 | 1 | boolean>): EmulatorDocument {
+    if (!select || Object.keys(select).length === 0) {
+        return document;
+    }
+
+    const entries = Object.entries(select);
+    const inclusive = entries.some(([, value]) => Boolean(value));
+
+    if (inclusive) {
+        const projected: EmulatorDocument = {};
+        const paths = entries.filter(([, value]) => Boolean(value)).map(([path]) => path);
+        // The id is always returned unless excluded explicitly
+        if (select.id === undefined) {
+            paths.unshift('id');
+        }
+        for (const path of paths) {
+            const value = getValueByPath(document, path);
+            if (value !== undefined) {
+                setValueByPath(projected, path, value);
+            }
+        }
+        return projected;
+    }
+
+    const projected = structuredClone(document);
+    for (const [path] of entries) {
+        unsetValueByPath(projected, path);
+    }
+    return projected;
+}
+
+/**
+ * Build a comparator for a MongoDB-style sort specification
+ */
+export function createSortComparator(sort: Record<string, 1 | -1>): (a: EmulatorDocument, b: EmulatorDocument) => number {
+    const keys = Object.entries(sort);
+    return (a, b) => {
+        for (const [path, direction] of keys) {
+            const order = compareSortValues(getValueByPath(a, path), getValueByPath(b, path));
+            if (order !== 0) {
+                return order * direction;
+            }
+        }
+        return 0;
+    };
+}
+
+function compareSortValues(a: any, b: any): number {
+    const aMissing = a === undefined || a === null;
+    const bMissing = b === undefined || b === null;
+    if (aMissing || bMissing) {
+        // Missing values sort first in ascending order
+        return aMissing === bMissing ? 0 : aMissing ? -1 : 1;
+    }
+    return compareValues(a, b) ?? (valuesEqual(a, b) ? 0 : String(a) < String(b) ? -1 : 1);
+}
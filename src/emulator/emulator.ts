@@ -0,0 +1,422 @@
+import type { RaukTransport, RaukTransportRequest, RaukTransportResponse } from '../core/transport';
+import type { OperationBulkWriteError, OperationBulkWriteResult } from '../types/operations';
+import { RaukApiErrorResponse, ValidationErrorDetail, flattenValidationMessages } from '../utils/errors';
+import { createQueryMatcher } from '../utils/query-matcher';
+import { validateCreateItem, validateUpdateItem } from '../utils/validation';
+import { NonceStore, createMemoryNonceStore, verifySignature } from '../utils/sign-request';
+import { IDEMPOTENCY_KEY_HEADER, IDEMPOTENCY_KEY_OPERATIONS, IDEMPOTENT_REPLAYED_HEADER } from '../core/idempotency';
+import { EmulatorDocument, projectDocument, createSortComparator } from './documents';
+import { applyUpdate } from './update';
+import { runPipeline } from './aggregate';
+
+export interface RaukInventoryEmulatorOptions {
+    /** Documents to seed the store with, missing ids and system fields are filled in */
+    items?: EmulatorDocument[];
+    /** Clock used for ids, timestamps, deletion dates and signature timestamps */
+    now?: () => Date;
+    /**
+     * Secrets by API key id. When given, requests must carry a valid Rai-Signature
+     * and are refused with a 401 otherwise, like the API does. Replayed v2 signatures are refused too.
+     */
+    apiKeys?: Record<string, string>;
+}
+
+/**
+ * Store documents the way they travel over the wire: dates as ISO strings and Maps as objects
+ */
+const toJsonDocument = (item: EmulatorDocument): EmulatorDocument =>
+    JSON.parse(JSON.stringify(item, (_key, value) => value instanceof Map ? Object.fromEntries(value) : value));
+
+/**
+ * Error answered by the emulator with a Rauk API error response
+ */
+class EmulatorRequestError extends Error {
+    constructor(public readonly status: number, public readonly body: RaukApiErrorResponse) {
+        super(body.error.message);
+    }
+}
+
+const badRequest = (message: string) =>
+    new EmulatorRequestError(400, { success: false, error: { name: 'BadRequestException', message } });
+
+/**
+ * Write error reported for a failed bulk write operation
+ */
+function toWriteError(error: unknown, index: number): OperationBulkWriteError {
+    if (error instanceof EmulatorRequestError) {
+        const { message, errors } = error.body.error;
+        return {
+            index,
+            code: error.status,
+            message: message ?? flattenValidationMessages(errors ?? []).join('; '),
+        };
+    }
+    return { index, code: 400, message: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * Answer validation errors with the same body the API uses
+ */
+function assertValid(errors: ValidationErrorDetail[]): void {
+    if (errors.length > 0) {
+        throw new EmulatorRequestError(400, { success: false, error: { errors, name: 'ValidationException' } });
+    }
+}
+
+/**
+ * In-memory stand-in for the Rauk Inventory API.
+ * It speaks the same request-array protocol and can be passed as the transport of a client,
+ * so tests exercise real queries without any network access.
+ * @example
+ * const emulator = new RaukInventoryEmulator({ items: [existingItem] });
+ * const client = new RaukInventoryClient({ ...credentials, transport: emulator });
+ * await client.find({ sku: "ITEM-001" });
+ */
+export class RaukInventoryEmulator implements RaukTransport {
+    private documents: EmulatorDocument[] = [];
+    private counter = 0;
+    private readonly now: () => Date;
+    private readonly apiKeys?: Record<string, string>;
+    private readonly nonceStore: NonceStore;
+    // First answer to each idempotency key, with the body it was given for
+    private idempotentResponses = new Map<string, { body: string; status: number; response: any }>();
+
+    constructor(options: RaukInventoryEmulatorOptions = {}) {
+        this.now = options.now ?? (() => new Date());
+        this.apiKeys = options.apiKeys;
+        this.nonceStore = createMemoryNonceStore(() => this.now().getTime());
+        this.reset(options.items);
+    }
+
+    /**
+     * Snapshot of every stored document, soft-deleted ones included
+     */
+    public get items(): EmulatorDocument[] {
+        return structuredClone(this.documents);
+    }
+
+    /**
+     * Replace the store content, idempotency keys seen so far are forgotten
+     */
+    public reset(items: EmulatorDocument[] = []): void {
+        this.documents = [];
+        this.idempotentResponses.clear();
+        for (const item of items) {
+            this.documents.push(this.prepareDocument(item));
+        }
+    }
+
+    /**
+     * Transport entry point, answers like the Rauk API would over HTTP.
+     * Writes carrying an Idempotency-Key header are executed once, repeating the key and the body
+     * gives the first answer again and repeating the key with another body is refused with a 422.
+     */
+    public async send(request: RaukTransportRequest): Promise<RaukTransportResponse> {
+        if (this.apiKeys) {
+            const apiKeys = this.apiKeys;
+            const verification = await verifySignature(
+                request.headers['Rai-Signature'],
+                request.body,
+                apiKeyId => Object.prototype.hasOwnProperty.call(apiKeys, apiKeyId) ? apiKeys[apiKeyId] : undefined,
+                {
+                    now: this.now().getTime(),
+                    method: request.method,
+                    path: new URL(request.url).pathname,
+                    nonceStore: this.nonceStore,
+                }
+            );
+            if (!verification.valid) {
+                return this.respond(401, {
+                    success: false,
+                    error: { name: 'AuthenticationError', message: `Invalid request signature: ${verification.reason}` }
+                });
+            }
+        }
+
+        let requestArray: any;
+        try {
+            requestArray = JSON.parse(request.body);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            return this.respond(400, badRequest(message).body);
+        }
+
+        const idempotencyKey = request.headers[IDEMPOTENCY_KEY_HEADER];
+        if (idempotencyKey === undefined || !IDEMPOTENCY_KEY_OPERATIONS.includes(requestArray?.[0])) {
+            return this.respond(...this.answer(requestArray));
+        }
+
+        const previous = this.idempotentResponses.get(idempotencyKey);
+        if (previous) {
+            if (previous.body !== request.body) {
+                return this.respond(422, {
+                    success: false,
+                    error: {
+                        name: 'IdempotencyKeyReuseError',
+                        message: `Idempotency key ${idempotencyKey} was already used for another request`
+                    }
+                });
+            }
+            return this.respond(previous.status, previous.response, { [IDEMPOTENT_REPLAYED_HEADER]: 'true' });
+        }
+
+        const [status, response] = this.answer(requestArray);
+        this.idempotentResponses.set(idempotencyKey, { body: request.body, status, response });
+        return this.respond(status, response);
+    }
+
+    /**
+     * Execute a request array and map failures to the API error responses
+     */
+    private answer(requestArray: any): [status: number, body: any] {
+        try {
+            return [200, this.execute(requestArray)];
+        } catch (error) {
+            if (error instanceof EmulatorRequestError) {
+                return [error.status, error.body];
+            }
+            const message = error instanceof Error ? error.message : String(error);
+            return [400, badRequest(message).body];
+        }
+    }
+
+    /**
+     * Execute a request array directly against the store
+     * @throws Error when the request is invalid
+     */
+    public execute(requestArray: any[]): any {
+        if (!Array.isArray(requestArray) || typeof requestArray[0] !== 'string') {
+            throw badRequest('Request must be an array starting with the operation name');
+        }
+
+        const [operation, ...args] = requestArray;
+        switch (operation) {
+            case 'find':
+                return this.find(args[0] ?? {}, args[1] ?? {});
+            case 'insertOne':
+                return this.insertOne(args[0], args[1] ?? {});
+            case 'findOneAndUpdate':
+                return this.updateDocuments(args[0] ?? {}, args[1] ?? {}, args[2] ?? {}, false);
+            case 'updateMany':
+                return this.updateDocuments(args[0] ?? {}, args[1] ?? {}, args[2] ?? {}, true);
+            case 'deleteOne':
+                return this.deleteDocuments(args[0] ?? {}, false);
+            case 'deleteMany':
+                return this.deleteDocuments(args[0] ?? {}, true);
+            case 'bulkWrite':
+                return this.bulkWrite(args[0], args[1] ?? {});
+            case 'aggregate':
+                return this.aggregate(args[0], args[1] ?? {});
+            default:
+                throw badRequest(`Unknown operation ${operation}`);
+        }
+    }
+
+    private find(query: Record<string, any>, options: Record<string, any>): EmulatorDocument[] {
+        let results = this.match(query, options.includeDeleted);
+        if (options.sort) {
+            results = [...results].sort(createSortComparator(options.sort));
+        }
+        if (options.skip) {
+            results = results.slice(options.skip);
+        }
+        if (options.limit) {
+            results = results.slice(0, options.limit);
+        }
+        return results.map(document => projectDocument(structuredClone(document), options.select));
+    }
+
+    private insertOne(item: EmulatorDocument, options: Record<string, any>): EmulatorDocument {
+        assertValid(validateCreateItem(item));
+        const document = this.insertDocument(item);
+        return projectDocument(structuredClone(document), options.select);
+    }
+
+    private updateDocuments(
+        query: Record<string, any>,
+        update: Record<string, any>,
+        options: Record<string, any>,
+        many: boolean
+    ) {
+        assertValid(validateUpdateItem(update));
+        const matched = this.match(query, options.includeDeleted);
+        const targets = many ? matched : matched.slice(0, 1);
+        let modifiedCount = 0;
+
+        const timestamp = this.now().toISOString();
+
+        // Apply every update to a copy first so a failing update leaves the store untouched
+        const updated = targets.map(document => {
+            const copy = structuredClone(document);
+            const modified = applyUpdate(copy, update, timestamp);
+            return { document, copy, modified };
+        });
+        for (const { document, copy, modified } of updated) {
+            if (modified) {
+                copy.updatedAt = timestamp;
+                this.documents[this.documents.indexOf(document)] = copy;
+                modifiedCount++;
+            }
+        }
+
+        return { acknowledged: true, matchedCount: targets.length, modifiedCount };
+    }
+
+    private deleteDocuments(query: Record<string, any>, many: boolean) {
+        const matched = this.match(query, false);
+        const targets = many ? matched : matched.slice(0, 1);
+        const deletionDate = this.now().toISOString();
+
+        for (const document of targets) {
+            document.deleted = { status: true, deletionDate };
+            document.updatedAt = deletionDate;
+        }
+        return { deletedCount: targets.length };
+    }
+
+    private bulkWrite(operations: Record<string, any>[], options: Record<string, any>) {
+        if (!Array.isArray(operations)) {
+            throw badRequest('bulkWrite needs an array of operations');
+        }
+
+        const result: Omit<OperationBulkWriteResult, 'writeErrors'> = {
+            acknowledged: true,
+            insertedCount: 0,
+            matchedCount: 0,
+            modifiedCount: 0,
+            deletedCount: 0,
+            insertedIds: {},
+        };
+        const writeErrors: OperationBulkWriteError[] = [];
+        const ordered = options.ordered ?? true;
+
+        for (const [index, operation] of operations.entries()) {
+            try {
+                this.bulkWriteOperation(operation, index, options, result);
+            } catch (error) {
+                writeErrors.push(toWriteError(error, index));
+                // Like MongoDB, an ordered bulk write stops at its first failure
+                if (ordered) {
+                    break;
+                }
+            }
+        }
+
+        if (writeErrors.length > 0) {
+            throw new EmulatorRequestError(400, {
+                success: false,
+                error: {
+                    name: 'BulkWriteError',
+                    message: `${writeErrors.length} bulk write operation(s) failed`,
+                    writeErrors,
+                    result,
+                },
+            });
+        }
+        return result;
+    }
+
+    private bulkWriteOperation(
+        operation: Record<string, any>,
+        index: number,
+        options: Record<string, any>,
+        result: Omit<OperationBulkWriteResult, 'writeErrors'>
+    ): void {
+        const [type] = Object.keys(operation ?? {});
+        const spec = operation?.[type];
+
+        switch (type) {
+            case 'insertOne': {
+                assertValid(validateCreateItem(spec.document));
+                const document = this.insertDocument(spec.document);
+                result.insertedCount++;
+                result.insertedIds[index] = document.id;
+                break;
+            }
+            case 'updateOne': {
+                const { matchedCount, modifiedCount } = this.updateDocuments(spec.filter ?? {}, spec.update ?? {}, options, false);
+                result.matchedCount += matchedCount;
+                result.modifiedCount += modifiedCount;
+                break;
+            }
+            case 'replaceOne': {
+                assertValid(validateCreateItem(spec.replacement));
+                const [document] = this.match(spec.filter ?? {}, options.includeDeleted);
+                if (document) {
+                    const { id, entities, createdAt } = document;
+                    const replacement = this.prepareDocument({ ...spec.replacement, id, entities, createdAt });
+                    replacement.updatedAt = this.now().toISOString();
+                    this.documents[this.documents.indexOf(document)] = replacement;
+                    result.matchedCount++;
+                    result.modifiedCount++;
+                }
+                break;
+            }
+            case 'deleteOne': {
+                result.deletedCount += this.deleteDocuments(spec.filter ?? {}, false).deletedCount;
+                break;
+            }
+            default:
+                throw badRequest(`Unknown bulkWrite operation ${type} at index ${index}`);
+        }
+    }
+
+    private aggregate(pipeline: Record<string, any>[], options: Record<string, any>): EmulatorDocument[] {
+        if (!Array.isArray(pipeline)) {
+            throw badRequest('aggregate needs a pipeline array');
+        }
+        return runPipeline(structuredClone(this.match({}, options.includeDeleted)), pipeline);
+    }
+
+    /**
+     * Stored documents matching a query, soft-deleted documents only when asked for
+     */
+    private match(query: Record<string, any>, includeDeleted?: boolean): EmulatorDocument[] {
+        const matches = createQueryMatcher(query);
+        return this.documents.filter(document =>
+            (includeDeleted || !document.deleted?.status) && matches(document)
+        );
+    }
+
+    private insertDocument(item: EmulatorDocument): EmulatorDocument {
+        const document = this.prepareDocument(item);
+        this.documents.push(document);
+        return document;
+    }
+
+    /**
+     * Fill in the fields the API manages itself
+     */
+    private prepareDocument(item: EmulatorDocument): EmulatorDocument {
+        const timestamp = this.now().toISOString();
+        return {
+            availability: {},
+            deleted: { status: false },
+            locationHistory: [],
+            createdAt: timestamp,
+            updatedAt: timestamp,
+            ...toJsonDocument(item),
+            id: item.id ?? this.generateId(),
+        };
+    }
+
+    /**
+     * ObjectId-like ids, increasing so they sort in insertion order
+     */
+    private generateId(): string {
+        const seconds = Math.floor(this.now().getTime() / 1000).toString(16).padStart(8, '0');
+        const counter = (this.counter++).toString(16).padStart(16, '0');
+        return `${seconds}${counter}`;
+    }
+
+    private respond(status: number, body: any, headers: Record<string, string> = {}): RaukTransportResponse {
+        const payload = JSON.stringify(body);
+        const responseHeaders = new Map(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+        return {
+            ok: status >= 200 && status < 300,
+            status,
+            headers: { get: name => responseHeaders.get(name.toLowerCase()) ?? null },
+            json: async () => JSON.parse(payload),
+        };
+    }
+}
@@ -0,0 +1,91 @@
+import { getValueByPath, valuesEqual } from '../utils/query-matcher';
+import { EmulatorDocument, setValueByPath, unsetValueByPath } from './documents';
+
+// Fields that can only be written by the API itself
+const PROTECTED_FIELDS = ['id', 'entities', 'locationHistory', 'createdAt', 'updatedAt'];
+
+const SUPPORTED_OPERATORS = ['$set', '$unset', '$inc', '$push', '$pull'];
+
+const isProtectedPath = (path: string) => PROTECTED_FIELDS.includes(path.split('.')[0]);
+
+/**
+ * Apply an update document to a stored document in place, callers pass a copy to keep failed updates atomic.
+ * Top-level fields without an operator are treated as $set, like the Rauk API does.
+ * @param timestamp Deletion date stamped when the update soft-deletes the document
+ * @returns Whether the document changed
+ */
+export function applyUpdate(document: EmulatorDocument, update: Record<string, any>, timestamp: string): boolean {
+    const before = structuredClone(document);
+    const fields: Record<string, any> = {};
+    const operators: Record<string, Record<string, any>> = {};
+
+    for (const [key, value] of Object.entries(update)) {
+        if (key.startsWith('$')) {
+            operators[key] = value;
+        } else {
+            fields[key] = value;
+        }
+    }
+
+    const unsupported = Object.keys(operators).find(operator => !SUPPORTED_OPERATORS.includes(operator));
+    if (unsupported) {
+        throw new Error(`Unsupported update operator ${unsupported}`);
+    }
+
+    const set = { ...fields, ...operators.$set };
+    for (const [path, value] of Object.entries(set)) {
+        assertWritable(path);
+        setValueByPath(document, path, value);
+    }
+
+    for (const path of Object.keys(operators.$unset ?? {})) {
+        assertWritable(path);
+        unsetValueByPath(document, path);
+    }
+
+    for (const [path, amount] of Object.entries(operators.$inc ?? {})) {
+        assertWritable(path);
+        if (typeof amount !== 'number') {
+            throw new Error(`Cannot $inc ${path} by a non-numeric value`);
+        }
+        const current = getValueByPath(document, path) ?? 0;
+        if (typeof current !== 'number') {
+            throw new Error(`Cannot $inc non-numeric field ${path}`);
+        }
+        setValueByPath(document, path, current + amount);
+    }
+
+    // $push is the only way to append to the location history
+    for (const [path, value] of Object.entries(operators.$push ?? {})) {
+        if (path !== 'locationHistory') {
+            assertWritable(path);
+        }
+        const current = getValueByPath(document, path) ?? [];
+        if (!Array.isArray(current)) {
+            throw new Error(`Cannot $push to non-array field ${path}`);
+        }
+        const values = value !== null && typeof value === 'object' && Array.isArray(value.$each) ? value.$each : [value];
+        setValueByPath(document, path, [...current, ...values]);
+    }
+
+    for (const [path, value] of Object.entries(operators.$pull ?? {})) {
+        assertWritable(path);
+        const current = getValueByPath(document, path);
+        if (Array.isArray(current)) {
+            setValueByPath(document, path, current.filter(entry => !valuesEqual(entry, value)));
+        }
+    }
+
+    // Soft deleting through an update is dated like deleteOne does it
+    if (document.deleted?.status === true && before.deleted?.status !== true) {
+        setValueByPath(document, 'deleted.deletionDate', timestamp);
+    }
+
+    return !valuesEqual(before, document);
+}
+
+function assertWritable(path: string): void {
+    if (isProtectedPath(path)) {
+        throw new Error(`${path.split('.')[0]} cannot be updated`);
+    }
+}
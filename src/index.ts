@@ -4,30 +4,128 @@ import type {
     OperationBulkWrite,
     OperationAggregatePipeline,
     OperationRequestOptions,
+    OperationPageOptions,
     OperationDeleteResult,
     OperationUpdateResult,
     OperationInsertResult,
-    OperationUpdateItem
+    OperationUpdateItem,
+    OperationClientOptions,
+    OperationLocation,
+    OperationBulkWriteOptions,
+    OperationBulkWriteResult
 } from './types/operations';
-import type { InventoryItem } from './types/item';
+import type { LocationHistoryEntry } from './types/item';
+import type { OperationSelect, ProjectedItem, RawProjectedItem } from './types/projection';
+import type { RaukClientConfig } from './types/config';
 import { RaukInventoryClient } from './core/rauk-client';
+import type {
+    AvailabilityTransitionResult,
+    ReserveOptions,
+    ReleaseReservationOptions,
+    MarkSoldOptions,
+    MarkProducedOptions
+} from './core/availability';
+import type { DispatchOptions, ReceiveOptions } from './core/movements';
+import {
+    StockOnHandRow,
+    AvailabilityByBrandRow,
+    InTransitByClientRow,
+    QuantityByFactoryRow,
+    stockOnHandPipeline,
+    availabilityByBrandPipeline,
+    inTransitByClientPipeline,
+    quantityByFactoryPipeline
+} from './core/reports';
 import {
     RaukError,
     RaukValidationError,
     RaukAuthenticationError,
     RaukNetworkError,
+    RaukServerError,
+    RaukTimeoutError,
+    RaukAbortError,
+    RaukQueryEvaluationError,
+    RaukNotFoundError,
+    RaukConflictError,
+    RaukRateLimitError,
+    RaukPayloadTooLargeError,
+    RaukResponseShapeError,
+    RaukBulkWriteError,
     RaukApiError,
     ValidationErrorDetail,
+    ConflictDetail,
     RaukApiErrorResponse,
     RaukErrorOptions,
     isRaukError,
     isValidationError,
     isAuthenticationError,
-    isNetworkError
+    isNetworkError,
+    isServerError,
+    isTimeoutError,
+    isAbortError,
+    isNotFoundError,
+    isConflictError,
+    isRateLimitError,
+    isPayloadTooLargeError,
+    isResponseShapeError,
+    isBulkWriteError
 } from './utils/errors';
+import { RetryPolicy, RetryPolicyConfig, DEFAULT_RETRY_POLICY } from './utils/retry';
+import {
+    RaukTransport,
+    RaukTransportRequest,
+    RaukTransportResponse,
+    createFetchTransport
+} from './core/transport';
+import {
+    RaukMiddleware,
+    RaukRequestContext,
+    RaukResponseContext,
+    RaukErrorContext
+} from './core/middleware';
+import {
+    ReservationSweeper,
+    ReservationSweeperOptions,
+    SweepResult,
+    SweptReservation
+} from './core/reservation-sweeper';
+import { RaukInventoryEmulator, RaukInventoryEmulatorOptions } from './emulator/emulator';
+import { matchesQuery, createQueryMatcher } from './utils/query-matcher';
+import { QueryBuilder, FieldConditions, QueryPath, where } from './utils/query-builder';
+import { PipelineBuilder, pipeline } from './utils/pipeline-builder';
+import { validateCreateItem, validateUpdateItem, validateBulkWrite } from './utils/validation';
+import { decodeItem, encodeValue } from './utils/codec';
+import {
+    verifySignature,
+    createMemoryNonceStore,
+    NonceStore,
+    SignatureVersion,
+    SignatureFailureReason,
+    SignatureVerificationResult,
+    SignatureSecretLookup,
+    VerifySignatureOptions
+} from './utils/sign-request';
+import type { ResponseValidationMode } from './utils/response-shape';
+import { BulkWriteChunkingOptions, DEFAULT_BULK_WRITE_CHUNKING } from './core/bulk-write';
+import { IDEMPOTENCY_KEY_HEADER, IDEMPOTENT_REPLAYED_HEADER, IDEMPOTENCY_KEY_OPERATIONS } from './core/idempotency';
+import {
+    RaukCredentials,
+    RaukCredentialProvider,
+    ExpiringCredentials,
+    CallbackCredentialsOptions,
+    EnvCredentialsOptions,
+    staticCredentials,
+    envCredentials,
+    callbackCredentials,
+    fileCredentials
+} from './core/credentials';
 
 export class RaukInventory extends RaukInventoryClient {
-    private static instance: RaukInventory | null = null;
+    /** Tenant used by the static methods, the one created by "new RaukInventory(config)" */
+    public static readonly DEFAULT_TENANT = 'default';
+
+    private static instance: RaukInventoryClient | null = null;
+    private static tenants = new Map<string, RaukInventoryClient>();
 
     /**
      * Constructor for RaukInventory
@@ -35,14 +133,20 @@ export class RaukInventory extends RaukInventoryClient {
      * @param config.apiKeyId - API key ID
      * @param config.apiSecret - API secret
      * @param config.apiPublicKey - API public key
+     * @param config.credentials - Credential provider optional, consulted before every request attempt instead of the key strings
      * @param config.apiBaseUrl - API base URL optional, will default to the standard Rauk Inventory API endpoint
+     * @param config.retry - Retry policy optional, `true` for the default policy, disabled when omitted
+     * @param config.timeoutMs - Default timeout for every request attempt optional, no timeout when omitted
+     * @param config.transport - Transport optional, takes precedence over config.fetch
+     * @param config.fetch - Fetch implementation optional, defaults to the global fetch
+     * @param config.middleware - Middleware optional, run around every request attempt in the given order
+     * @param config.validate - Validate create and update payloads locally before sending them optional, defaults to false
+     * @param config.raw - Return the JSON received from the API without converting dates and maps optional, defaults to false
+     * @param config.responseValidation - Verify the shape of responses optional, "warn" logs mismatches and "strict" throws, defaults to "off"
+     * @param config.bulkWriteChunking - Split large bulk writes into several requests optional, defaults to 1000 operations or 1 MiB per request
+     * @param config.signatureVersion - Signature scheme optional, "v2" adds a nonce, the method and the path to the signature, defaults to "v1"
      */
-    constructor(config: {
-        apiKeyId: string;
-        apiSecret: string;
-        apiPublicKey: string;
-        apiBaseUrl?: string;
-    }) {
+    constructor(config: RaukClientConfig) {
         super(config); // Pass config to RaukInventoryClient
         if (RaukInventory.instance) {
             throw new Error('RaukInventory is already initialized. Use the existing instance.');
@@ -50,17 +154,141 @@ export class RaukInventory extends RaukInventoryClient {
         RaukInventory.instance = this;
     }
 
-    public static setConfig(config: {
-        apiKeyId: string;
-        apiSecret: string;
-        apiPublicKey: string;
-        apiBaseUrl?: string;
-    }) {
+    /**
+     * Register a client for a tenant, each tenant signs its requests with its own credentials.
+     * Registering the default tenant makes the static methods use it.
+     * @returns The client of the tenant
+     * @example
+     * RaukInventory.register("brand-a", {
+     *   apiKeyId: "brand-a-key-id",
+     *   apiSecret: "brand-a-secret",
+     *   apiPublicKey: "brand-a-public-key"
+     * });
+     * const items = await RaukInventory.use("brand-a").find({ sku: "ITEM-001" });
+     */
+    public static register(tenant: string, config: RaukClientConfig): RaukInventoryClient {
+        if (RaukInventory.has(tenant)) {
+            throw new Error(`Tenant "${tenant}" is already registered. Use RaukInventory.replace to change its configuration.`);
+        }
+        const client = new RaukInventoryClient(config);
+        RaukInventory.setTenant(tenant, client);
+        return client;
+    }
+
+    /**
+     * Register a new client for a tenant and dispose the previous one.
+     * Requests already sent by the previous client complete, new requests through it are refused.
+     * @returns The new client of the tenant
+     * @example
+     * // Rotate the credentials of a brand
+     * RaukInventory.replace("brand-a", { ...brandAConfig, apiSecret: "new-secret" });
+     */
+    public static replace(tenant: string, config: RaukClientConfig): RaukInventoryClient {
+        // Built before the previous client is removed, so an invalid config leaves the tenant untouched
+        const client = new RaukInventoryClient(config);
+        const previous = RaukInventory.getTenant(tenant);
+        RaukInventory.setTenant(tenant, client);
+        previous?.dispose();
+        return client;
+    }
+
+    /**
+     * Get the client of a tenant
+     * @param tenant - The tenant name, defaults to the default tenant
+     * @example
+     * const brandA = RaukInventory.use("brand-a");
+     * await brandA.update({ sku: "ITEM-001" }, { $set: { packageQuantity: 5 } });
+     */
+    public static use(tenant: string = RaukInventory.DEFAULT_TENANT): RaukInventoryClient {
+        const client = RaukInventory.getTenant(tenant);
+        if (!client) {
+            if (tenant === RaukInventory.DEFAULT_TENANT) {
+                throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
+            }
+            throw new Error(`Tenant "${tenant}" is not registered. Use RaukInventory.register("${tenant}", config) first.`);
+        }
+        return client;
+    }
+
+    public static has(tenant: string): boolean {
+        return RaukInventory.getTenant(tenant) !== undefined;
+    }
+
+    /**
+     * Names of the registered tenants, the default tenant included once initialized
+     */
+    public static getTenants(): string[] {
+        const tenants = [...RaukInventory.tenants.keys()];
+        return RaukInventory.instance ? [RaukInventory.DEFAULT_TENANT, ...tenants] : tenants;
+    }
+
+    /**
+     * Remove a tenant and dispose its client.
+     * Disposing the default tenant allows "new RaukInventory(config)" to be called again.
+     * @param tenant - The tenant name, defaults to the default tenant
+     * @returns Whether the tenant was registered
+     */
+    public static dispose(tenant: string = RaukInventory.DEFAULT_TENANT): boolean {
+        const client = RaukInventory.getTenant(tenant);
+        if (!client) {
+            return false;
+        }
+        if (tenant === RaukInventory.DEFAULT_TENANT) {
+            RaukInventory.instance = null;
+        } else {
+            RaukInventory.tenants.delete(tenant);
+        }
+        client.dispose();
+        return true;
+    }
+
+    /**
+     * Remove every tenant, the default one included, and dispose their clients
+     */
+    public static disposeAll(): void {
+        for (const tenant of RaukInventory.getTenants()) {
+            RaukInventory.dispose(tenant);
+        }
+    }
+
+    private static getTenant(tenant: string): RaukInventoryClient | undefined {
+        if (tenant === RaukInventory.DEFAULT_TENANT) {
+            return RaukInventory.instance ?? undefined;
+        }
+        return RaukInventory.tenants.get(tenant);
+    }
+
+    private static setTenant(tenant: string, client: RaukInventoryClient): void {
+        if (tenant === RaukInventory.DEFAULT_TENANT) {
+            RaukInventory.instance = client;
+        } else {
+            RaukInventory.tenants.set(tenant, client);
+        }
+    }
+
+    public static setConfig(config: RaukClientConfig) {
         if (!RaukInventory.instance) {
             throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
         }
         RaukInventory.instance.setConfig(config);
     }
+
+    /**
+     * Register a middleware running around every request attempt
+     * @returns A function removing the middleware again
+     * @example
+     * RaukInventory.useMiddleware({
+     *   onResponse: ({ operation, status, latencyMs }) => {
+     *     console.log(`${operation} ${status} ${latencyMs}ms`);
+     *   }
+     * });
+     */
+    public static useMiddleware(middleware: RaukMiddleware): () => void {
+        if (!RaukInventory.instance) {
+            throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
+        }
+        return RaukInventory.instance.useMiddleware(middleware);
+    }
     /**
      * Create a new inventory item
      * @example
@@ -89,7 +317,10 @@ export class RaukInventory extends RaukInventoryClient {
      *   select: { sku: 1, color: 1 }
      * });
      */
-    public static async create(item: OperationCreateItem, options?: OperationRequestOptions): Promise<InventoryItem> {
+    public static async create<S extends OperationSelect = {}>(
+        item: OperationCreateItem,
+        options?: OperationRequestOptions<S>
+    ): Promise<ProjectedItem<S>> {
         if (!RaukInventory.instance) {
             throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
         }
@@ -113,14 +344,70 @@ export class RaukInventory extends RaukInventoryClient {
      *   sort: { createdAt: -1 },
      *   select: { sku: 1, packageQuantity: 1, color: 1 }
      * });
+     *
+     * // Skip decoding, dates stay ISO strings and maps plain objects
+     * const wire = await raukInventory.find({ sku: "ITEM-001" }, { raw: true });
      */
-    public static async find(query: OperationQuery, options?: OperationRequestOptions): Promise<InventoryItem[]> {
+    public static async find<S extends OperationSelect = {}>(
+        query: OperationQuery,
+        options: OperationRequestOptions<S> & { raw: true }
+    ): Promise<RawProjectedItem<S>[]>;
+    public static async find<S extends OperationSelect = {}>(
+        query: OperationQuery,
+        options?: OperationRequestOptions<S>
+    ): Promise<ProjectedItem<S>[]>;
+    public static async find<S extends OperationSelect = {}>(
+        query: OperationQuery,
+        options?: OperationRequestOptions<S>
+    ): Promise<ProjectedItem<S>[] | RawProjectedItem<S>[]> {
         if (!RaukInventory.instance) {
             throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
         }
         return RaukInventory.instance.find(query, options);
     }
 
+    /**
+     * Lazily fetch every matching inventory item, one page at a time, in id order
+     * @example
+     * // Process a factory's inventory 500 items at a time
+     * for await (const page of RaukInventory.findPages(
+     *   { entities: { factoryId: "factory-789" } },
+     *   { pageSize: 500 }
+     * )) {
+     *   await processBatch(page);
+     * }
+     */
+    public static findPages<S extends OperationSelect = {}>(
+        query: OperationQuery,
+        options?: OperationPageOptions<S>
+    ): AsyncIterableIterator<ProjectedItem<S>[]> {
+        if (!RaukInventory.instance) {
+            throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
+        }
+        return RaukInventory.instance.findPages(query, options);
+    }
+
+    /**
+     * Lazily iterate over every matching inventory item, fetching pages as needed
+     * @example
+     * // Walk a factory's full inventory with bounded memory
+     * for await (const item of RaukInventory.findIterator(
+     *   { entities: { factoryId: "factory-789" } },
+     *   { pageSize: 200 }
+     * )) {
+     *   total += item.packageQuantity;
+     * }
+     */
+    public static findIterator<S extends OperationSelect = {}>(
+        query: OperationQuery,
+        options?: OperationPageOptions<S>
+    ): AsyncIterableIterator<ProjectedItem<S>> {
+        if (!RaukInventory.instance) {
+            throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
+        }
+        return RaukInventory.instance.findIterator(query, options);
+    }
+
     /**
      * Find a single inventory item
      * @example
@@ -136,7 +423,18 @@ export class RaukInventory extends RaukInventoryClient {
      *   select: { sku: 1, color: 1, packageQuantity: 1 }
      * });
      */
-    public static async findOne(query: OperationQuery, options?: OperationRequestOptions): Promise<InventoryItem | null> {
+    public static async findOne<S extends OperationSelect = {}>(
+        query: OperationQuery,
+        options: OperationRequestOptions<S> & { raw: true }
+    ): Promise<RawProjectedItem<S> | null>;
+    public static async findOne<S extends OperationSelect = {}>(
+        query: OperationQuery,
+        options?: OperationRequestOptions<S>
+    ): Promise<ProjectedItem<S> | null>;
+    public static async findOne<S extends OperationSelect = {}>(
+        query: OperationQuery,
+        options?: OperationRequestOptions<S>
+    ): Promise<ProjectedItem<S> | RawProjectedItem<S> | null> {
         if (!RaukInventory.instance) {
             throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
         }
@@ -192,19 +490,34 @@ export class RaukInventory extends RaukInventoryClient {
     }
 
     /**
-     * Perform aggregation operations
+     * Perform aggregation operations, results are typed when the pipeline comes from a PipelineBuilder
      * @example
      * await raukInventory.aggregate([
      *   { $match: { "entities.factoryId": "factory-123" } },
      *   { $group: { _id: "$sku", count: { $sum: 1 } } },
      *   { $sort: { count: -1 } }
      * ]);
+     *
+     * // Resolves with { _id: string; count: number }[]
+     * await raukInventory.aggregate(
+     *   pipeline()
+     *     .match({ "entities.factoryId": "factory-123" })
+     *     .group("$sku", { count: { $sum: 1 } })
+     *     .sort({ count: -1 })
+     * );
      */
-    public static async aggregate(pipeline: OperationAggregatePipeline, options?: OperationRequestOptions): Promise<any[]> {
+    public static async aggregate<T>(pipeline: PipelineBuilder<T>, options?: OperationRequestOptions): Promise<T[]>;
+    public static async aggregate(pipeline: OperationAggregatePipeline, options?: OperationRequestOptions): Promise<any[]>;
+    public static async aggregate(
+        pipeline: OperationAggregatePipeline | PipelineBuilder<any>,
+        options?: OperationRequestOptions
+    ): Promise<any[]> {
         if (!RaukInventory.instance) {
             throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
         }
-        return RaukInventory.instance.aggregate(pipeline, options);
+        return pipeline instanceof PipelineBuilder
+            ? RaukInventory.instance.aggregate(pipeline, options)
+            : RaukInventory.instance.aggregate(pipeline, options);
     }
 
     /**
@@ -228,8 +541,9 @@ export class RaukInventory extends RaukInventoryClient {
      * const result = await raukInventory.bulkWrite(operations, {
      *   includeDeleted: false
      * });
+     * @throws RaukBulkWriteError when some operations failed, with what was written in error.result
      */
-    public static async bulkWrite(operations: OperationBulkWrite, options?: OperationRequestOptions): Promise<any> {
+    public static async bulkWrite(operations: OperationBulkWrite, options?: OperationBulkWriteOptions): Promise<OperationBulkWriteResult> {
         if (!RaukInventory.instance) {
             throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
         }
@@ -319,17 +633,214 @@ export class RaukInventory extends RaukInventoryClient {
      * ];
      * const result = await raukInventory.updateBatch(batchUpdates);
      */
-    public static async updateBatch(updates: [OperationQuery, OperationUpdateItem][], options?: OperationRequestOptions): Promise<any> {
+    public static async updateBatch(
+        updates: [OperationQuery, OperationUpdateItem][],
+        options?: OperationBulkWriteOptions
+    ): Promise<OperationBulkWriteResult> {
         if (!RaukInventory.instance) {
             throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
         }
         return RaukInventory.instance.updateBatch(updates, options);
     }
+
+    /**
+     * Reserve inventory items for an order
+     * Sold items and items reserved by another order are refused with a RaukConflictError
+     * @example
+     * // Hold two items for a checkout for 15 minutes
+     * const { changedIds } = await RaukInventory.reserve(
+     *   { sku: "ITEM-001", "availability.reserved": { $exists: false } },
+     *   { orderId: "order-123", expiresAt: new Date(Date.now() + 15 * 60 * 1000) }
+     * );
+     */
+    public static async reserve(
+        query: OperationQuery,
+        reservation: ReserveOptions,
+        options?: OperationClientOptions
+    ): Promise<AvailabilityTransitionResult> {
+        if (!RaukInventory.instance) {
+            throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
+        }
+        return RaukInventory.instance.reserve(query, reservation, options);
+    }
+
+    /**
+     * Release the reservation of inventory items
+     * @example
+     * // Release everything held by an abandoned checkout
+     * await RaukInventory.releaseReservation(
+     *   { "availability.reserved.orderId": "order-123" },
+     *   { orderId: "order-123" }
+     * );
+     */
+    public static async releaseReservation(
+        query: OperationQuery,
+        release?: ReleaseReservationOptions,
+        options?: OperationClientOptions
+    ): Promise<AvailabilityTransitionResult> {
+        if (!RaukInventory.instance) {
+            throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
+        }
+        return RaukInventory.instance.releaseReservation(query, release, options);
+    }
+
+    /**
+     * Mark inventory items as sold, clearing the reservation of the same order
+     * @example
+     * // Complete the sale of the items reserved by an order
+     * await RaukInventory.markSold(
+     *   { "availability.reserved.orderId": "order-123" },
+     *   { orderId: "order-123" }
+     * );
+     */
+    public static async markSold(
+        query: OperationQuery,
+        sale: MarkSoldOptions,
+        options?: OperationClientOptions
+    ): Promise<AvailabilityTransitionResult> {
+        if (!RaukInventory.instance) {
+            throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
+        }
+        return RaukInventory.instance.markSold(query, sale, options);
+    }
+
+    /**
+     * Mark inventory items as produced
+     * @example
+     * // Record the production of a batch
+     * await RaukInventory.markProduced(
+     *   { sku: "ITEM-001", "entities.factoryId": "factory-789" },
+     *   { orderId: "production-42" }
+     * );
+     */
+    public static async markProduced(
+        query: OperationQuery,
+        production?: MarkProducedOptions,
+        options?: OperationClientOptions
+    ): Promise<AvailabilityTransitionResult> {
+        if (!RaukInventory.instance) {
+            throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
+        }
+        return RaukInventory.instance.markProduced(query, production, options);
+    }
+
+    /**
+     * Put inventory items in transit to a location or client
+     * @example
+     * // Ship a pallet to a store
+     * await RaukInventory.dispatch(
+     *   { sku: "ITEM-001", "currentLocation.id": "warehouse-1" },
+     *   { to: "store-nyc", client: "client-42" }
+     * );
+     */
+    public static async dispatch(
+        query: OperationQuery,
+        dispatch: DispatchOptions,
+        options?: OperationRequestOptions
+    ): Promise<OperationUpdateResult> {
+        if (!RaukInventory.instance) {
+            throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
+        }
+        return RaukInventory.instance.dispatch(query, dispatch, options);
+    }
+
+    /**
+     * Receive inventory items at a location: sets currentLocation, clears transitTo
+     * and appends the movement to the location history
+     * @example
+     * // Receive everything in transit to the store
+     * await RaukInventory.receive(
+     *   { "transitTo.id": "store-nyc" },
+     *   { id: "store-nyc", name: "New York Store" }
+     * );
+     */
+    public static async receive(
+        query: OperationQuery,
+        location: OperationLocation,
+        options?: OperationRequestOptions & ReceiveOptions
+    ): Promise<OperationUpdateResult> {
+        if (!RaukInventory.instance) {
+            throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
+        }
+        return RaukInventory.instance.receive(query, location, options);
+    }
+
+    /**
+     * Get the locations an inventory item went through, oldest first, with dates as Date objects
+     * @example
+     * const history = await RaukInventory.getMovementHistory("68e7f70f8d21cb8e86067aff");
+     * history[0].date.toISOString();
+     */
+    public static async getMovementHistory(itemId: string, options?: OperationClientOptions): Promise<LocationHistoryEntry[]> {
+        if (!RaukInventory.instance) {
+            throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
+        }
+        return RaukInventory.instance.getMovementHistory(itemId, options);
+    }
+
+    /**
+     * Items on hand, neither sold nor in transit, per SKU and current location
+     * @param filter - Restricts the items counted, same syntax as find
+     * @example
+     * const rows = await RaukInventory.getStockOnHand({ "entities.brandId": "brand-123" });
+     * // [{ sku: "ITEM-001", locationId: "warehouse-1", items: 12, quantity: 240 }, ...]
+     */
+    public static async getStockOnHand(filter?: OperationQuery, options?: OperationRequestOptions): Promise<StockOnHandRow[]> {
+        if (!RaukInventory.instance) {
+            throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
+        }
+        return RaukInventory.instance.getStockOnHand(filter, options);
+    }
+
+    /**
+     * Produced, reserved and sold item counts per brand
+     * @param filter - Restricts the items counted, same syntax as find
+     * @example
+     * const rows = await RaukInventory.getAvailabilityByBrand({ "entities.factoryId": "factory-789" });
+     * // [{ brandId: "brand-123", brandName: "Acme", items: 40, produced: 38, reserved: 6, sold: 12 }, ...]
+     */
+    public static async getAvailabilityByBrand(filter?: OperationQuery, options?: OperationRequestOptions): Promise<AvailabilityByBrandRow[]> {
+        if (!RaukInventory.instance) {
+            throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
+        }
+        return RaukInventory.instance.getAvailabilityByBrand(filter, options);
+    }
+
+    /**
+     * Items in transit per client, with the locations they are sent to
+     * @param filter - Restricts the items counted, same syntax as find
+     * @example
+     * const rows = await RaukInventory.getInTransitByClient({ "entities.brandId": "brand-123" });
+     * // [{ client: "client-42", destinations: ["store-nyc"], items: 3, quantity: 60 }, ...]
+     */
+    public static async getInTransitByClient(filter?: OperationQuery, options?: OperationRequestOptions): Promise<InTransitByClientRow[]> {
+        if (!RaukInventory.instance) {
+            throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
+        }
+        return RaukInventory.instance.getInTransitByClient(filter, options);
+    }
+
+    /**
+     * Item count and packageQuantity total per factory
+     * @param filter - Restricts the items counted, same syntax as find
+     * @example
+     * const rows = await RaukInventory.getQuantityByFactory({ "deleted.status": false });
+     * // [{ factoryId: "factory-789", factoryName: "Main Factory", items: 40, quantity: 800 }, ...]
+     */
+    public static async getQuantityByFactory(filter?: OperationQuery, options?: OperationRequestOptions): Promise<QuantityByFactoryRow[]> {
+        if (!RaukInventory.instance) {
+            throw new Error('RaukInventory must be initialized with "new RaukInventory(config)" before calling static methods.');
+        }
+        return RaukInventory.instance.getQuantityByFactory(filter, options);
+    }
 }
 
 export default RaukInventory;
 export * from './types/operations';
 export * from './types/item';
+export * from './types/projection';
+export * from './types/pipeline';
+export * from './types/config';
 export { RaukInventoryClient };
 
 // Export error handling utilities
@@ -338,12 +849,172 @@ export {
     RaukValidationError,
     RaukAuthenticationError,
     RaukNetworkError,
+    RaukServerError,
+    RaukTimeoutError,
+    RaukAbortError,
+    RaukQueryEvaluationError,
+    RaukNotFoundError,
+    RaukConflictError,
+    RaukRateLimitError,
+    RaukPayloadTooLargeError,
+    RaukResponseShapeError,
+    RaukBulkWriteError,
     RaukApiError,
     ValidationErrorDetail,
+    ConflictDetail,
     RaukApiErrorResponse,
     RaukErrorOptions,
     isRaukError,
     isValidationError,
     isAuthenticationError,
-    isNetworkError
+    isNetworkError,
+    isServerError,
+    isTimeoutError,
+    isAbortError,
+    isNotFoundError,
+    isConflictError,
+    isRateLimitError,
+    isPayloadTooLargeError,
+    isResponseShapeError,
+    isBulkWriteError
+};
+
+// Export retry policy utilities
+export {
+    RetryPolicy,
+    RetryPolicyConfig,
+    DEFAULT_RETRY_POLICY
+};
+
+// Export credential providers
+export {
+    RaukCredentials,
+    RaukCredentialProvider,
+    ExpiringCredentials,
+    CallbackCredentialsOptions,
+    EnvCredentialsOptions,
+    staticCredentials,
+    envCredentials,
+    callbackCredentials,
+    fileCredentials
+};
+
+// Export signature schemes and their server-side verification
+export {
+    verifySignature,
+    createMemoryNonceStore,
+    NonceStore,
+    SignatureVersion,
+    SignatureFailureReason,
+    SignatureVerificationResult,
+    SignatureSecretLookup,
+    VerifySignatureOptions
+};
+
+// Export the idempotency key contract, for API stand-ins
+export {
+    IDEMPOTENCY_KEY_HEADER,
+    IDEMPOTENT_REPLAYED_HEADER,
+    IDEMPOTENCY_KEY_OPERATIONS
+};
+
+// Export transport utilities
+export {
+    RaukTransport,
+    RaukTransportRequest,
+    RaukTransportResponse,
+    createFetchTransport
+};
+
+// Export middleware types
+export {
+    RaukMiddleware,
+    RaukRequestContext,
+    RaukResponseContext,
+    RaukErrorContext
+};
+
+// Export the in-memory emulator for offline testing
+export {
+    RaukInventoryEmulator,
+    RaukInventoryEmulatorOptions
+};
+
+// Export local query evaluation
+export {
+    matchesQuery,
+    createQueryMatcher
+};
+
+// Export availability workflow types
+export {
+    AvailabilityTransitionResult,
+    ReserveOptions,
+    ReleaseReservationOptions,
+    MarkSoldOptions,
+    MarkProducedOptions
+};
+
+// Export stock movement types
+export {
+    DispatchOptions,
+    ReceiveOptions
+};
+
+// Export inventory reports and their pipelines
+export {
+    StockOnHandRow,
+    AvailabilityByBrandRow,
+    InTransitByClientRow,
+    QuantityByFactoryRow,
+    stockOnHandPipeline,
+    availabilityByBrandPipeline,
+    inTransitByClientPipeline,
+    quantityByFactoryPipeline
+};
+
+// Export the expired reservation sweeper
+export {
+    ReservationSweeper,
+    ReservationSweeperOptions,
+    SweepResult,
+    SweptReservation
+};
+
+// Export the fluent query builder
+export {
+    QueryBuilder,
+    FieldConditions,
+    QueryPath,
+    where
+};
+
+// Export the typed aggregation pipeline builder
+export {
+    PipelineBuilder,
+    pipeline
+};
+
+// Export the conversion between API JSON and runtime values
+export {
+    decodeItem,
+    encodeValue
+};
+
+// Export response shape verification types
+export {
+    ResponseValidationMode
+};
+
+// Export bulk write chunking
+export {
+    BulkWriteChunkingOptions,
+    DEFAULT_BULK_WRITE_CHUNKING
+};
+
+// Export client-side validation
+export {
+    validateCreateItem,
+    validateUpdateItem,
+    validateBulkWrite
 };
\ No newline at end of file
@@ -0,0 +1,27 @@
+import type { RetryPolicyConfig } from "../utils/retry";
+import type { RaukTransport } from "../core/transport";
+import type { RaukMiddleware } from "../core/middleware";
+import type { ResponseValidationMode } from "../utils/response-shape";
+import type { BulkWriteChunkingOptions } from "../core/bulk-write";
+import type { RaukCredentialProvider } from "../core/credentials";
+import type { SignatureVersion } from "../utils/sign-request";
+
+// Client configuration types
+export interface RaukClientConfig {
+  // Required unless credentials is given
+  apiKeyId?: string;
+  apiSecret?: string;
+  apiPublicKey?: string;
+  credentials?: RaukCredentialProvider;
+  apiBaseUrl?: string;
+  retry?: RetryPolicyConfig;
+  timeoutMs?: number;
+  transport?: RaukTransport;
+  fetch?: typeof fetch;
+  middleware?: RaukMiddleware[];
+  validate?: boolean;
+  raw?: boolean;
+  responseValidation?: ResponseValidationMode;
+  bulkWriteChunking?: BulkWriteChunkingOptions;
+  signatureVersion?: SignatureVersion;
+}
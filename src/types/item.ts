@@ -47,7 +47,7 @@ interface Deleted {
   deletionDate?: Date;
 }
 
-interface LocationHistoryEntry {
+export interface LocationHistoryEntry {
   id: string;
   name: string;
   date: Date;
@@ -1,6 +1,8 @@
 // Base types with ObjectId replaced by string
 import type { OperationQuery } from "./query";
 import type { OperationUpdateItem } from "./update";
+import type { OperationSelect } from "./projection";
+import type { BulkWriteChunkingOptions } from "../core/bulk-write";
 // Color types
 
 export interface OperationColor {
@@ -268,11 +270,42 @@ export type OperationAggregateStage =
   | OperationCountStage;
 
 // Request Options types
-export interface OperationRequestOptions {
-  select?: Record<string, 0 | 1>;
+
+// Options handled by the client itself, never sent to the API
+export interface OperationClientOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Return the JSON received from the API without converting dates and maps
+  raw?: boolean;
+  // Sent as the Idempotency-Key header of insertOne, bulkWrite, findOneAndUpdate and updateMany,
+  // a key is generated for every call when retries are enabled
+  idempotencyKey?: string;
+}
+
+export interface OperationRequestOptions<S extends OperationSelect = OperationSelect>
+  extends OperationClientOptions {
+  select?: S;
   limit?: number;
+  skip?: number;
   sort?: Record<string, 1 | -1>;
   includeDeleted?: boolean;
+  // Cursor: only return items after this id, in id order
+  after?: string;
+}
+
+// Options of bulkWrite and updateBatch
+export interface OperationBulkWriteOptions extends OperationRequestOptions {
+  // Stop at the first failed operation, defaults to true
+  ordered?: boolean;
+  // Overrides the bulkWriteChunking of the client for this call, never sent to the API
+  chunking?: BulkWriteChunkingOptions;
+}
+
+// Options of findPages and findIterator, pages are always sorted on id
+export interface OperationPageOptions<S extends OperationSelect = OperationSelect>
+  extends Omit<OperationRequestOptions<S>, "limit" | "skip" | "sort"> {
+  pageSize?: number;
+  sort?: { id: 1 | -1 };
 }
 
 export interface OperationIncludeDeletedOnly {
@@ -294,6 +327,24 @@ export interface OperationInsertResult {
   acknowledged: boolean;
   insertedId: string;
 }
+
+export interface OperationBulkWriteError {
+  // Index of the failed operation in the bulk write array
+  index: number;
+  code?: number | string;
+  message: string;
+}
+
+export interface OperationBulkWriteResult {
+  acknowledged: boolean;
+  insertedCount: number;
+  matchedCount: number;
+  modifiedCount: number;
+  deletedCount: number;
+  // Ids of the inserted items, keyed by the index of their insertOne operation
+  insertedIds: Record<number, string>;
+  writeErrors: OperationBulkWriteError[];
+}
 export type { OperationQuery } from "./query";
 export type { OperationUpdateItem } from "./update";
 // Export all operation types
@@ -311,8 +362,13 @@ export type OperationTypes = {
   AggregateStage: OperationAggregateStage;
   AggregatePipeline: OperationAggregateStage[];
   RequestOptions: OperationRequestOptions;
+  ClientOptions: OperationClientOptions;
+  PageOptions: OperationPageOptions;
   IncludeDeletedOnly: OperationIncludeDeletedOnly;
   DeleteResult: OperationDeleteResult;
   UpdateResult: OperationUpdateResult;
   InsertResult: OperationInsertResult;
+  BulkWriteOptions: OperationBulkWriteOptions;
+  BulkWriteError: OperationBulkWriteError;
+  BulkWriteResult: OperationBulkWriteResult;
 };
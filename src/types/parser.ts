@@ -1,34 +1,32 @@
 import type { InventoryItem, QueryInventoryItem } from "./item";
 
+// Maps are addressed by their keys, like the availability map ("availability.reserved.orderId")
 export type DotNotationPaths<T, Prefix extends string = ""> = T extends object
   ? {
-      [K in keyof T & string]: T[K] extends object
+      [K in keyof T & string]: T[K] extends Map<infer MK, infer MV>
+        ? `${Prefix}${K}` | DotNotationPaths<Record<MK & string, MV>, `${Prefix}${K}.`>
+        : T[K] extends object
         ? `${Prefix}${K}` | DotNotationPaths<T[K], `${Prefix}${K}.`>
         : `${Prefix}${K}`;
     }[keyof T & string]
   : never;
 
+// Type of the value found at a dot-notation path
+export type PathValue<T, P extends string> = T extends Map<infer MK, infer MV>
+  ? PathValue<Record<MK & string, MV>, P>
+  : P extends keyof T
+  ? T[P]
+  : P extends `${infer Head}.${infer Rest}`
+  ? Head extends keyof T
+    ? PathValue<NonNullable<T[Head]>, Rest>
+    : never
+  : never;
+
 // Map InventoryItem fields to their types
 export type InventoryItemFieldValues = {
-  [K in DotNotationPaths<InventoryItem>]: K extends keyof InventoryItem
-    ? InventoryItem[K]
-    : K extends `${infer P}.${infer Q}`
-    ? P extends keyof InventoryItem
-      ? Q extends keyof InventoryItem[P]
-        ? InventoryItem[P][Q]
-        : never
-      : never
-    : never;
+  [K in DotNotationPaths<InventoryItem>]: PathValue<InventoryItem, K>;
 };
 
 export type QueryInventoryItemFieldValues = {
-  [K in DotNotationPaths<QueryInventoryItem>]: K extends keyof QueryInventoryItem
-    ? QueryInventoryItem[K]
-    : K extends `${infer P}.${infer Q}`
-    ? P extends keyof QueryInventoryItem
-      ? Q extends keyof QueryInventoryItem[P]
-        ? QueryInventoryItem[P][Q]
-        : never
-      : never
-    : never;
+  [K in DotNotationPaths<QueryInventoryItem>]: PathValue<QueryInventoryItem, K>;
 };
@@ -0,0 +1,255 @@
+import type { InventoryItem } from "./item";
+import type { MongoOperator, OperationQuery } from "./query";
+import type { IncludePaths, ExcludePaths } from "./projection";
+
+// Flatten intersections so hovering a document type shows its fields
+export type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+// Documents as aggregation stages see them: dates are ISO strings and maps plain objects
+export type AggregateValue<T> = T extends Date
+  ? string
+  : T extends Map<infer K, infer V>
+  ? { [P in K & string]?: AggregateValue<V> }
+  : T extends readonly (infer E)[]
+  ? AggregateValue<E>[]
+  : T extends object
+  ? { [K in keyof T]: AggregateValue<T[K]> }
+  : T;
+
+export type AggregateItem = AggregateValue<InventoryItem>;
+
+// Limits the depth of paths into records of any
+type Depth = [never, 0, 1, 2, 3, 4];
+
+// Dot-notation paths of a document, paths through an array address the fields of its elements
+export type DocumentPath<T, D extends number = 5> = [D] extends [never]
+  ? never
+  : T extends readonly (infer E)[]
+  ? DocumentPath<E, D>
+  : T extends object
+  ? {
+      [K in keyof T & string]-?:
+        | K
+        | `${K}.${DocumentPath<NonNullable<T[K]>, Depth[D]>}`;
+    }[keyof T & string]
+  : never;
+
+// Type at a path, paths through an array give an array of the values found in its elements
+export type DocumentPathValue<T, P extends string> = T extends readonly (infer E)[]
+  ? DocumentPathValue<E, P>[]
+  : P extends keyof T
+  ? T[P]
+  : P extends `${infer Head}.${infer Rest}`
+  ? Head extends keyof T
+    ? DocumentPathValue<NonNullable<T[Head]>, Rest>
+    : never
+  : never;
+
+// "$packageQuantity", "$color.name"
+export type FieldRef<T> = `$${DocumentPath<T>}`;
+
+type PathsOfType<T, V> = {
+  [P in DocumentPath<T>]: NonNullable<DocumentPathValue<T, P>> extends V ? P : never;
+}[DocumentPath<T>];
+
+export type NumericFieldRef<T> = `$${PathsOfType<T, number>}`;
+
+type NumericExpression<T> =
+  | number
+  | NumericFieldRef<T>
+  | { $add: readonly NumericExpression<T>[] }
+  | { $subtract: readonly [NumericExpression<T>, NumericExpression<T>] }
+  | { $multiply: readonly NumericExpression<T>[] }
+  | { $divide: readonly [NumericExpression<T>, NumericExpression<T>] }
+  | { $size: `$${PathsOfType<T, readonly any[]>}` }
+  | { $cond: readonly [Expression<T>, NumericExpression<T>, NumericExpression<T>] };
+
+type StringExpression<T> = `$${PathsOfType<T, string>}` | { $literal: string };
+
+// Expressions understood by the pipeline builder, string literals are written { $literal: "..." }
+// so that a mistyped field reference cannot pass for a string
+export type Expression<T> =
+  | FieldRef<T>
+  | NumericExpression<T>
+  | boolean
+  | null
+  | { $literal: unknown }
+  | { $concat: readonly StringExpression<T>[] }
+  | { $ifNull: readonly [Expression<T>, Expression<T>] }
+  | { $eq: readonly [Expression<T>, Expression<T>] }
+  | { $cond: readonly [Expression<T>, Expression<T>, Expression<T>] };
+
+// Type an expression evaluates to
+export type ExpressionValue<T, E> = E extends `$${infer P}`
+  ? DocumentPathValue<T, P>
+  : E extends { $literal: infer V }
+  ? V
+  : E extends { $add: any } | { $subtract: any } | { $multiply: any } | { $size: any }
+  ? number
+  : E extends { $divide: any }
+  ? number | null
+  : E extends { $concat: any }
+  ? string | null
+  : E extends { $eq: any }
+  ? boolean
+  : E extends { $ifNull: readonly [infer A, infer B] }
+  ? NonNullable<ExpressionValue<T, A>> | ExpressionValue<T, B>
+  : E extends { $cond: readonly [any, infer A, infer B] }
+  ? ExpressionValue<T, A> | ExpressionValue<T, B>
+  : E extends number
+  ? number
+  : E extends boolean
+  ? boolean
+  : E;
+
+// Stages as the pipeline builder sends them, their content is checked by the builder method adding them
+export type PipelineStage =
+  | { $match: Record<string, unknown> }
+  | { $project: Record<string, unknown> }
+  | { $group: Record<string, unknown> }
+  | { $unwind: string | UnwindOptions<string, string | undefined> }
+  | { $addFields: Record<string, unknown> }
+  | { $count: string }
+  | { $sort: Partial<Record<string, 1 | -1>> }
+  | { $skip: number }
+  | { $limit: number };
+
+export type PipelineQuery<T> = {
+  [P in DocumentPath<T>]?:
+    | DocumentPathValue<T, P>
+    | MongoOperator<NonNullable<DocumentPathValue<T, P>>>;
+} & {
+  $or?: PipelineQuery<T>[];
+  $and?: PipelineQuery<T>[];
+  $nor?: PipelineQuery<T>[];
+};
+
+// Stages over inventory items also take the OperationQuery used by find
+export type ItemQuery<T> = AggregateItem extends T ? OperationQuery : never;
+
+// Only paths of the documents and logical operators are accepted as $match keys
+export type ValidMatch<T, Q> = {
+  [K in keyof Q]: K extends keyof PipelineQuery<T> | ([ItemQuery<T>] extends [never] ? never : keyof ItemQuery<T>)
+    ? Q[K]
+    : never;
+};
+
+// Paths a $match stage proves to hold a value, through { $ne: null } or { $exists: true }
+type MatchedPaths<Q> = {
+  [P in keyof Q & string]-?: Q[P] extends { $ne: null } | { $exists: true } ? P : never;
+}[keyof Q & string];
+
+type HeadOf<P> = P extends `${infer Head}.${string}` ? Head : never;
+
+type RestOf<P, K extends string> = P extends `${K}.${infer Rest}` ? Rest : never;
+
+// Document with the given paths required and not null
+type WithValuesAt<T, P extends string> = [P] extends [never]
+  ? T
+  : T extends readonly any[]
+  ? T
+  : Simplify<
+      { [K in keyof T as K extends P | HeadOf<P> ? never : K]: T[K] } & {
+        [K in keyof T as K extends P | HeadOf<P> ? K : never]-?: K extends P
+          ? NonNullable<T[K]>
+          : WithValuesAt<NonNullable<T[K]>, RestOf<P, K & string>>;
+      }
+    >;
+
+// Document shape after a $match stage
+export type MatchOutput<T, Q> = WithValuesAt<T, MatchedPaths<Q>>;
+
+export type PipelineSort<T> = { [P in DocumentPath<T>]?: 1 | -1 };
+
+// Expressions allowed for computed $project fields, numbers and booleans are inclusion flags there
+type ProjectExpression<T> = Exclude<Expression<T>, number | boolean>;
+
+export type PipelineProjection<T> = Record<string, 0 | 1 | boolean | ProjectExpression<T>>;
+
+// Inclusion flags are only accepted on existing paths, other keys must be computed
+export type ValidProjection<T, S> = {
+  [K in keyof S]: K extends DocumentPath<T>
+    ? S[K]
+    : S[K] extends number | boolean
+    ? never
+    : S[K];
+};
+
+type KeysWith<S, V> = { [K in keyof S]-?: S[K] extends V ? K : never }[keyof S] & string;
+
+type ComputedFields<T, S> = {
+  [K in Exclude<keyof S & string, KeysWith<S, number | boolean>>]: ExpressionValue<T, S[K]>;
+};
+
+// Document shape after a $project stage, the id is kept unless excluded
+export type ProjectOutput<T, S> = [
+  KeysWith<S, 1 | true> | Exclude<keyof S & string, KeysWith<S, number | boolean>>
+] extends [never]
+  ? ExcludePaths<T, KeysWith<S, 0 | false>>
+  : Simplify<
+      IncludePaths<T, KeysWith<S, 1 | true> | ("id" extends KeysWith<S, 0 | false> ? never : "id")> &
+        ComputedFields<T, S>
+    >;
+
+export type GroupKey<T> = FieldRef<T> | null | Record<string, FieldRef<T>>;
+
+export type GroupKeyValue<T, K> = K extends null
+  ? null
+  : K extends string
+  ? ExpressionValue<T, K>
+  : { [F in keyof K]: ExpressionValue<T, K[F]> };
+
+export type Accumulator<T> =
+  | { $sum: NumericExpression<T> }
+  | { $avg: NumericExpression<T> }
+  | { $min: Expression<T> }
+  | { $max: Expression<T> }
+  | { $first: Expression<T> }
+  | { $last: Expression<T> }
+  | { $push: Expression<T> }
+  | { $addToSet: Expression<T> }
+  | { $count: Record<string, never> };
+
+export type AccumulatorValue<T, A> = A extends { $sum: any } | { $count: any }
+  ? number
+  : A extends { $avg: any }
+  ? number | null
+  : A extends { $push: infer E } | { $addToSet: infer E }
+  ? ExpressionValue<T, E>[]
+  : A extends { $min: infer E } | { $max: infer E } | { $first: infer E } | { $last: infer E }
+  ? ExpressionValue<T, E> | null
+  : never;
+
+export type GroupOutput<T, K, A> = Simplify<
+  { _id: GroupKeyValue<T, K> } & { [F in keyof A]: AccumulatorValue<T, A[F]> }
+>;
+
+export type AddFieldsOutput<T, S> = Simplify<
+  Omit<T, keyof S> & { [K in keyof S]: ExpressionValue<T, S[K]> }
+>;
+
+// Top-level fields holding an array
+export type ArrayField<T> = {
+  [K in keyof T & string]-?: NonNullable<T[K]> extends readonly any[] ? K : never;
+}[keyof T & string];
+
+type ElementOf<V> = NonNullable<V> extends readonly (infer E)[] ? E : never;
+
+export interface UnwindOptions<P extends string, I extends string | undefined = undefined> {
+  path: `$${P}`;
+  // Field receiving the index of the element in the array
+  includeArrayIndex?: I;
+  // Keep documents whose array is missing or empty, without the field
+  preserveNullAndEmptyArrays?: boolean;
+}
+
+export type UnwindOutput<
+  T,
+  K extends keyof T,
+  I extends string | undefined,
+  Preserve extends boolean
+> = Simplify<
+  Omit<T, K> &
+    (Preserve extends true ? { [F in K]?: ElementOf<T[F]> } : { [F in K]-?: ElementOf<T[F]> }) &
+    (I extends string ? { [F in I]: Preserve extends true ? number | null : number } : {})
+>;
@@ -0,0 +1,75 @@
+import type { InventoryItem } from "./item";
+import type { DotNotationPaths } from "./parser";
+import type { AggregateValue } from "./pipeline";
+
+// Field selection keyed by dot-notation paths, 1 includes a field and 0 excludes it
+export type OperationSelect = {
+  [K in DotNotationPaths<InventoryItem>]?: 0 | 1;
+};
+
+// Paths of a selection with the given value
+type SelectedPaths<S, V> = {
+  [K in keyof S]-?: S[K] extends V ? K : never;
+}[keyof S] &
+  string;
+
+// "color.name" -> "color"
+type TopKey<P extends string> = P extends `${infer Head}.${string}` ? Head : P;
+
+// "color.name" under "color" -> "name"
+type SubPath<P extends string, K extends string> = P extends `${K}.${infer Rest}`
+  ? Rest
+  : never;
+
+// Arrays are projected element by element, like MongoDB does
+type IncludeNested<V, P extends string> = V extends (infer E)[]
+  ? IncludeNested<E, P>[]
+  : V extends Date | Map<any, any>
+  ? V
+  : V extends object
+  ? IncludePaths<V, P>
+  : V;
+
+// Keep only the given paths of T
+export type IncludePaths<T, P extends string> = {
+  [K in keyof T as K extends TopKey<P> ? K : never]: K extends P
+    ? T[K]
+    : IncludeNested<T[K], SubPath<P, K & string>>;
+};
+
+type ExcludeNested<V, P extends string> = V extends (infer E)[]
+  ? ExcludeNested<E, P>[]
+  : V extends Date | Map<any, any>
+  ? V
+  : V extends object
+  ? ExcludePaths<V, P>
+  : V;
+
+// Remove the given paths from T
+export type ExcludePaths<T, P extends string> = {
+  [K in keyof T as K extends P ? never : K]: K extends TopKey<P>
+    ? ExcludeNested<T[K], SubPath<P, K & string>>
+    : T[K];
+};
+
+// The id is returned with inclusive selections unless it is excluded explicitly
+type IncludedPaths<S> =
+  | SelectedPaths<S, 1>
+  | ("id" extends SelectedPaths<S, 0> ? never : "id");
+
+// Item shape returned for a selection, the full item when nothing is selected
+export type ProjectedItem<
+  S,
+  T = InventoryItem
+> = string extends keyof S
+  ? T
+  : [SelectedPaths<S, 1>] extends [never]
+  ? [SelectedPaths<S, 0>] extends [never]
+    ? T
+    : ExcludePaths<T, SelectedPaths<S, 0>>
+  : IncludePaths<T, IncludedPaths<S>>;
+
+// Item shape for a selection as the API sends it, returned when raw is set
+export type RawProjectedItem<S, T = InventoryItem> = AggregateValue<
+  ProjectedItem<S, T>
+>;
@@ -1,15 +1,21 @@
 import type { QueryInventoryItem } from "./item";
 import type { DotNotationPaths, QueryInventoryItemFieldValues } from "./parser";
+// Dates may be given as ISO strings, the form the API stores and returns them in
+type QueryValue<T> = T extends Date ? Date | string : T;
+
+// Range operators compare numbers, strings and dates, dates may be given as ISO strings
+type RangeOperand<T> = T extends number | string ? T : T extends Date ? Date | string : never;
+
 // MongoDB operator types
-interface MongoOperator<T> {
-  $eq?: T;
-  $ne?: T;
-  $gt?: T extends number ? number : never;
-  $gte?: T extends number ? number : never;
-  $lt?: T extends number ? number : never;
-  $lte?: T extends number ? number : never;
-  $in?: T[];
-  $nin?: T[];
+export interface MongoOperator<T> {
+  $eq?: QueryValue<T>;
+  $ne?: QueryValue<T>;
+  $gt?: RangeOperand<T>;
+  $gte?: RangeOperand<T>;
+  $lt?: RangeOperand<T>;
+  $lte?: RangeOperand<T>;
+  $in?: QueryValue<T>[];
+  $nin?: QueryValue<T>[];
   $exists?: boolean;
   $regex?: string;
   $options?: string;
@@ -30,7 +36,7 @@ interface MongoOperator<T> {
 // Flexible query type supporting dot notation and operators
 export type OperationQuery = {
   [K in DotNotationPaths<QueryInventoryItem>]?:
-    | QueryInventoryItemFieldValues[K]
+    | QueryValue<QueryInventoryItemFieldValues[K]>
     | MongoOperator<QueryInventoryItemFieldValues[K]>;
 } & {
   $or?: OperationQuery[];
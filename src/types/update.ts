@@ -1,6 +1,8 @@
-import type { InventoryItem } from "./item";
+import type { InventoryItem, LocationHistoryEntry } from "./item";
 import type { InventoryItemFieldValues, DotNotationPaths } from "./parser";
 
+type PushedHistoryEntry = Omit<LocationHistoryEntry, "date"> & { date: Date | string };
+
 export type OperationUpdateItem = {
     [K in DotNotationPaths<InventoryItem>]?: InventoryItemFieldValues[K];
 } & {
@@ -8,14 +10,13 @@ export type OperationUpdateItem = {
     locationHistory?: never;
     id?: never;
     $set?: {
-        [K in DotNotationPaths<InventoryItem>]: K extends keyof InventoryItem
-        ? InventoryItemFieldValues[K]
-        : K extends `${infer P}.${infer Q}`
-        ? P extends keyof InventoryItem
-        ? Q extends keyof InventoryItem[P]
-        ? InventoryItem[P][Q]
-        : never
-        : never
-        : never;
+        [K in DotNotationPaths<InventoryItem>]?: InventoryItemFieldValues[K];
+    };
+    $unset?: {
+        [K in DotNotationPaths<InventoryItem>]?: "" | 1 | true;
+    };
+    // The location history is append-only, dates may be given as ISO strings
+    $push?: {
+        locationHistory?: PushedHistoryEntry | { $each: PushedHistoryEntry[] };
     };
-};
\ No newline at end of file
+};
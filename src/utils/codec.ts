@@ -0,0 +1,89 @@
+// Conversion between the JSON the API speaks and the runtime types of InventoryItem
+import type { InventoryItem } from '../types/item';
+
+// Operations answering with inventory items
+const ITEM_OPERATIONS = ['find', 'insertOne'];
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value)
+    && (Object.getPrototypeOf(value) === Object.prototype || Object.getPrototypeOf(value) === null);
+
+const toDate = (value: any): any => {
+    if (typeof value !== 'string') {
+        return value;
+    }
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date;
+};
+
+function decodeStatus(status: any): any {
+    if (!isPlainObject(status)) {
+        return status;
+    }
+    const decoded = { ...status };
+    for (const field of ['date', 'expiration']) {
+        if (field in decoded) {
+            decoded[field] = toDate(decoded[field]);
+        }
+    }
+    return decoded;
+}
+
+/**
+ * Convert an item received from the API: dates become Date objects and availability becomes a Map.
+ * Fields missing because of a projection stay missing.
+ */
+export function decodeItem(raw: any): InventoryItem {
+    if (!isPlainObject(raw)) {
+        return raw;
+    }
+
+    const item: Record<string, any> = { ...raw };
+    for (const field of ['createdAt', 'updatedAt']) {
+        if (field in item) {
+            item[field] = toDate(item[field]);
+        }
+    }
+    if (isPlainObject(item.deleted) && 'deletionDate' in item.deleted) {
+        item.deleted = { ...item.deleted, deletionDate: toDate(item.deleted.deletionDate) };
+    }
+    if (Array.isArray(item.locationHistory)) {
+        item.locationHistory = item.locationHistory.map(decodeStatus);
+    }
+    if (isPlainObject(item.availability)) {
+        item.availability = new Map(
+            Object.entries(item.availability).map(([state, status]) => [state, decodeStatus(status)])
+        );
+    }
+    return item as InventoryItem;
+}
+
+/**
+ * Decode the response of an operation, only responses made of inventory items are converted
+ */
+export function decodeResponse(operation: string, data: any): any {
+    if (!ITEM_OPERATIONS.includes(operation)) {
+        return data;
+    }
+    return Array.isArray(data) ? data.map(decodeItem) : decodeItem(data);
+}
+
+/**
+ * Convert a value before it is sent: dates become ISO strings and Maps become plain objects,
+ * so items read from the API can be written back as they are
+ */
+export function encodeValue(value: any): any {
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    if (value instanceof Map) {
+        return encodeValue(Object.fromEntries(value));
+    }
+    if (Array.isArray(value)) {
+        return value.map(encodeValue);
+    }
+    if (isPlainObject(value)) {
+        return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, encodeValue(entry)]));
+    }
+    return value;
+}
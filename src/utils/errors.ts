@@ -1,5 +1,8 @@
 // Custom Error Types for Rauk Inventory SDK
 // Based on API error response structure
+import type { RaukTransportResponse } from '../core/transport';
+import type { OperationBulkOperation, OperationBulkWriteError, OperationBulkWriteResult } from '../types/operations';
+import { getIncompleteIndexes, toBulkWriteResult } from '../core/bulk-write';
 
 export interface ValidationErrorDetail {
     property: string;
@@ -22,8 +25,13 @@ export interface RaukErrorOptions {
     requestId?: string;
     timestamp?: string;
     context?: Record<string, any>;
+    /** Whether sending the same request again may succeed, each error class has its own default */
+    retryable?: boolean;
 }
 
+// Server failures that are usually transient, 501 and 505 will fail again
+const RETRYABLE_SERVER_STATUS_CODES = [500, 502, 503, 504];
+
 /**
  * Base class for all Rauk SDK errors
  */
@@ -34,6 +42,8 @@ export class RaukError extends Error {
     public readonly timestamp?: string;
     public readonly context?: Record<string, any>;
     public readonly originalError?: RaukApiErrorResponse;
+    /** Whether sending the same request again may succeed */
+    public readonly retryable: boolean;
 
     constructor(
         message: string,
@@ -47,6 +57,7 @@ export class RaukError extends Error {
         this.timestamp = options.timestamp;
         this.context = options.context;
         this.originalError = originalError;
+        this.retryable = options.retryable ?? false;
 
         // Maintain proper stack trace for where our error was thrown
         if (Error.captureStackTrace) {
@@ -65,6 +76,7 @@ export class RaukError extends Error {
             requestId: this.requestId,
             timestamp: this.timestamp,
             context: this.context,
+            retryable: this.retryable,
             stack: this.stack,
             originalError: this.originalError,
         };
@@ -141,7 +153,188 @@ export class RaukNetworkError extends RaukError {
     public readonly name: string = 'RaukNetworkError';
 
     constructor(message: string = 'Network request failed', options: RaukErrorOptions = {}, originalError?: RaukApiErrorResponse) {
+        super(message, { ...options, retryable: options.retryable ?? true }, originalError);
+    }
+}
+
+/**
+ * Request exceeded its timeout before a response was received
+ */
+export class RaukTimeoutError extends RaukError {
+    public readonly name: string = 'RaukTimeoutError';
+
+    constructor(message: string = 'Request timed out', options: RaukErrorOptions = {}, originalError?: RaukApiErrorResponse) {
+        super(message, { ...options, retryable: options.retryable ?? true }, originalError);
+    }
+}
+
+/**
+ * The API answered with a 5xx status
+ */
+export class RaukServerError extends RaukError {
+    public readonly name: string = 'RaukServerError';
+
+    constructor(message: string = 'Server error occurred', options: RaukErrorOptions = {}, originalError?: RaukApiErrorResponse) {
+        const retryable = options.retryable
+            ?? (options.statusCode === undefined || RETRYABLE_SERVER_STATUS_CODES.includes(options.statusCode));
+        super(message, { ...options, retryable }, originalError);
+    }
+}
+
+/**
+ * The requested resource does not exist
+ */
+export class RaukNotFoundError extends RaukError {
+    public readonly name: string = 'RaukNotFoundError';
+
+    constructor(message: string = 'Not found', options: RaukErrorOptions = {}, originalError?: RaukApiErrorResponse) {
+        super(message, options, originalError);
+    }
+}
+
+/**
+ * Too many requests were sent, the API asks to wait before sending more
+ */
+export class RaukRateLimitError extends RaukError {
+    public readonly name: string = 'RaukRateLimitError';
+    /** Delay requested by the Retry-After header, undefined when the API did not send one */
+    public readonly retryAfterMs?: number;
+
+    constructor(
+        message: string = 'Too many requests',
+        retryAfterMs?: number,
+        options: RaukErrorOptions = {},
+        originalError?: RaukApiErrorResponse
+    ) {
+        super(message, { ...options, retryable: options.retryable ?? true }, originalError);
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * The request body exceeds the size accepted by the API, sending it again will not help
+ */
+export class RaukPayloadTooLargeError extends RaukError {
+    public readonly name: string = 'RaukPayloadTooLargeError';
+
+    constructor(message: string = 'Request payload too large', options: RaukErrorOptions = {}, originalError?: RaukApiErrorResponse) {
+        super(message, options, originalError);
+    }
+}
+
+/**
+ * Request was cancelled through its AbortSignal
+ */
+export class RaukAbortError extends RaukError {
+    public readonly name: string = 'RaukAbortError';
+
+    constructor(message: string = 'Request was aborted', options: RaukErrorOptions = {}, originalError?: RaukApiErrorResponse) {
+        super(message, options, originalError);
+    }
+}
+
+/**
+ * Query cannot be evaluated locally, because of an unknown or server-only operator
+ */
+export class RaukQueryEvaluationError extends RaukError {
+    public readonly name: string = 'RaukQueryEvaluationError';
+    public readonly operator: string;
+
+    constructor(message: string, operator: string, options: RaukErrorOptions = {}) {
+        super(message, options);
+        this.operator = operator;
+    }
+}
+
+export interface ConflictDetail {
+    id: string;
+    reason: string;
+}
+
+/**
+ * The current state of an item does not allow the requested change
+ */
+export class RaukConflictError extends RaukError {
+    public readonly name: string = 'RaukConflictError';
+    public readonly conflicts: ConflictDetail[];
+
+    constructor(
+        message: string,
+        conflicts: ConflictDetail[] = [],
+        options: RaukErrorOptions = {},
+        originalError?: RaukApiErrorResponse
+    ) {
+        super(message, options, originalError);
+        this.conflicts = conflicts;
+    }
+}
+
+/**
+ * The API answered with a response that does not have the expected shape
+ */
+export class RaukResponseShapeError extends RaukError {
+    public readonly name: string = 'RaukResponseShapeError';
+    /** Path of the offending value, like "response[0].packageQuantity" */
+    public readonly path: string;
+
+    constructor(message: string, path: string, options: RaukErrorOptions = {}) {
+        super(message, options);
+        this.path = path;
+    }
+}
+
+/**
+ * Some operations of a bulk write failed, the others may have been written
+ */
+export class RaukBulkWriteError extends RaukError {
+    public readonly name: string = 'RaukBulkWriteError';
+    /** What was written, with one write error per failed operation */
+    public readonly result: OperationBulkWriteResult;
+    /** Operations of the request, empty when they are not known */
+    public readonly operations: OperationBulkOperation[];
+    /** Indexes of the operations that failed or, for ordered writes, were never attempted */
+    public readonly incompleteIndexes: number[];
+
+    constructor(
+        message: string,
+        result: OperationBulkWriteResult,
+        operations: OperationBulkOperation[] = [],
+        ordered: boolean = true,
+        options: RaukErrorOptions = {},
+        originalError?: RaukApiErrorResponse
+    ) {
         super(message, options, originalError);
+        this.result = result;
+        this.operations = operations;
+        this.incompleteIndexes = getIncompleteIndexes(result, operations.length, ordered);
+    }
+
+    get writeErrors(): OperationBulkWriteError[] {
+        return this.result.writeErrors;
+    }
+
+    /**
+     * Operations that reported a write error
+     */
+    get failedOperations(): OperationBulkOperation[] {
+        return this.writeErrors
+            .map(error => this.operations[error.index])
+            .filter((operation): operation is OperationBulkOperation => operation !== undefined);
+    }
+
+    /**
+     * Operations to send again so that the whole bulk write is applied
+     * @example
+     * try {
+     *   await client.bulkWrite(operations);
+     * } catch (error) {
+     *   if (isBulkWriteError(error)) {
+     *     await client.bulkWrite(fixOperations(error.getRetryOperations()));
+     *   }
+     * }
+     */
+    getRetryOperations(): OperationBulkOperation[] {
+        return this.incompleteIndexes.map(index => this.operations[index]);
     }
 }
 
@@ -156,19 +349,65 @@ export class RaukApiError extends RaukError {
     }
 }
 
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date
+ * @returns The delay in milliseconds, or undefined when the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+        return seconds >= 0 ? seconds * 1000 : undefined;
+    }
+
+    const date = Date.parse(value);
+    if (Number.isNaN(date)) {
+        return undefined;
+    }
+    return Math.max(0, date - now);
+}
+
+/**
+ * Collect the constraint messages of a validation error tree, nested children included
+ */
+export function flattenValidationMessages(errors: ValidationErrorDetail[]): string[] {
+    return errors.flatMap(error => [...error.constraints, ...flattenValidationMessages(error.children ?? [])]);
+}
+
 /**
  * Parse API error response into appropriate error type
  */
-export function parseApiError(response: Response, errorBody: any): RaukError {
+export function parseApiError(response: RaukTransportResponse, errorBody: any): RaukError {
     const errorOptions: RaukErrorOptions = {
         statusCode: response.status,
         timestamp: new Date().toISOString(),
     };
 
+    const retryAfterMs = parseRetryAfter(response.headers?.get('Retry-After'));
+    if (retryAfterMs !== undefined) {
+        errorOptions.context = { retryAfterMs };
+    }
+
+    // Handle bulk writes that failed for some of their operations
+    if (Array.isArray(errorBody?.error?.writeErrors)) {
+        const result = toBulkWriteResult(errorBody.error.result, errorBody.error.writeErrors);
+        return new RaukBulkWriteError(
+            errorBody.error.message || `${result.writeErrors.length} bulk write operation(s) failed`,
+            result,
+            [],
+            true,
+            errorOptions,
+            errorBody
+        );
+    }
+
     // Handle validation errors with detailed structure
     if (errorBody?.error?.errors && Array.isArray(errorBody.error.errors)) {
         const validationErrors = errorBody.error.errors as ValidationErrorDetail[];
-        const allMessages = validationErrors.flatMap(error => error.constraints);
+        const allMessages = flattenValidationMessages(validationErrors);
 
         return new RaukValidationError(
             errorBody.error.message || allMessages.join('; '),
@@ -187,19 +426,40 @@ export function parseApiError(response: Response, errorBody: any): RaukError {
         );
     }
 
-    // Handle network errors
+    if (response.status === 404) {
+        return new RaukNotFoundError(errorBody?.error?.message || 'Not found', errorOptions, errorBody);
+    }
+
+    if (response.status === 409) {
+        return new RaukConflictError(
+            errorBody?.error?.message || 'Conflict',
+            Array.isArray(errorBody?.error?.conflicts) ? errorBody.error.conflicts : [],
+            errorOptions,
+            errorBody
+        );
+    }
+
+    if (response.status === 413) {
+        return new RaukPayloadTooLargeError(errorBody?.error?.message || 'Request payload too large', errorOptions, errorBody);
+    }
+
+    if (response.status === 429) {
+        return new RaukRateLimitError(errorBody?.error?.message || 'Too many requests', retryAfterMs, errorOptions, errorBody);
+    }
+
+    // Handle server errors
     if (response.status >= 500) {
-        return new RaukNetworkError(
+        return new RaukServerError(
             errorBody?.error?.message || 'Server error occurred',
             errorOptions,
             errorBody
         );
     }
 
-    // Generic API error
+    // Generic API error, a 408 means the server gave up waiting for the request
     return new RaukApiError(
         errorBody?.error?.message || `API request failed with status ${response.status}`,
-        errorOptions,
+        { ...errorOptions, retryable: response.status === 408 },
         errorBody
     );
 }
@@ -231,3 +491,66 @@ export function isAuthenticationError(error: any): error is RaukAuthenticationEr
 export function isNetworkError(error: any): error is RaukNetworkError {
     return error instanceof RaukNetworkError;
 }
+
+/**
+ * Type guard to check if an error is a server error
+ */
+export function isServerError(error: any): error is RaukServerError {
+    return error instanceof RaukServerError;
+}
+
+/**
+ * Type guard to check if an error is a not found error
+ */
+export function isNotFoundError(error: any): error is RaukNotFoundError {
+    return error instanceof RaukNotFoundError;
+}
+
+/**
+ * Type guard to check if an error is a rate limit error
+ */
+export function isRateLimitError(error: any): error is RaukRateLimitError {
+    return error instanceof RaukRateLimitError;
+}
+
+/**
+ * Type guard to check if an error is a payload too large error
+ */
+export function isPayloadTooLargeError(error: any): error is RaukPayloadTooLargeError {
+    return error instanceof RaukPayloadTooLargeError;
+}
+
+/**
+ * Type guard to check if an error is a timeout error
+ */
+export function isTimeoutError(error: any): error is RaukTimeoutError {
+    return error instanceof RaukTimeoutError;
+}
+
+/**
+ * Type guard to check if an error is an abort error
+ */
+export function isAbortError(error: any): error is RaukAbortError {
+    return error instanceof RaukAbortError;
+}
+
+/**
+ * Type guard to check if an error is a conflict error
+ */
+export function isConflictError(error: any): error is RaukConflictError {
+    return error instanceof RaukConflictError;
+}
+
+/**
+ * Type guard to check if an error is a response shape error
+ */
+export function isResponseShapeError(error: any): error is RaukResponseShapeError {
+    return error instanceof RaukResponseShapeError;
+}
+
+/**
+ * Type guard to check if an error is a bulk write error
+ */
+export function isBulkWriteError(error: any): error is RaukBulkWriteError {
+    return error instanceof RaukBulkWriteError;
+}
@@ -0,0 +1,119 @@
+import type {
+    AggregateItem,
+    Accumulator,
+    AddFieldsOutput,
+    ArrayField,
+    Expression,
+    GroupKey,
+    GroupOutput,
+    ItemQuery,
+    MatchOutput,
+    PipelineProjection,
+    PipelineQuery,
+    PipelineSort,
+    PipelineStage,
+    ProjectOutput,
+    UnwindOptions,
+    UnwindOutput,
+    ValidMatch,
+    ValidProjection,
+} from '../types/pipeline';
+
+/**
+ * Immutable builder of an aggregation pipeline that tracks the shape of the documents
+ * through every stage, so aggregate resolves with typed results and field references are checked.
+ * Every stage returns a new builder, a builder can be extended in several directions.
+ * @example
+ * const stock = pipeline()
+ *     .match({ "entities.factoryId": "factory-123" })
+ *     .group("$sku", { count: { $sum: 1 }, total: { $sum: "$packageQuantity" } })
+ *     .sort({ total: -1 });
+ *
+ * const rows = await raukInventory.aggregate(stock); // { _id: string; count: number; total: number }[]
+ */
+export class PipelineBuilder<T = AggregateItem> {
+    constructor(private readonly stages: PipelineStage[] = []) {}
+
+    /**
+     * Keep the documents matching a query, an OperationQuery is accepted while the documents are inventory items.
+     * Paths matched with { $ne: null } or { $exists: true } are no longer nullable in the following stages.
+     */
+    public match<Q extends PipelineQuery<T> | ItemQuery<T>>(query: Q & ValidMatch<T, Q>): PipelineBuilder<MatchOutput<T, Q>> {
+        return this.append({ $match: query });
+    }
+
+    /**
+     * Include, exclude or compute fields.
+     * Flags (0, 1, true, false) only apply to existing paths, other keys take an expression.
+     */
+    public project<S extends PipelineProjection<T>>(spec: S & ValidProjection<T, S>): PipelineBuilder<ProjectOutput<T, S>> {
+        return this.append({ $project: spec });
+    }
+
+    /**
+     * Group documents by a key, every other field of the output is an accumulator
+     * @example
+     * pipeline().group({ sku: "$sku", location: "$currentLocation.id" }, { quantity: { $sum: "$packageQuantity" } })
+     */
+    public group<K extends GroupKey<T>, A extends Record<string, Accumulator<T>> & { _id?: never }>(
+        key: K,
+        accumulators: A
+    ): PipelineBuilder<GroupOutput<T, K, A>> {
+        return this.append({ $group: { ...accumulators, _id: key } });
+    }
+
+    /**
+     * Output one document per element of an array field
+     */
+    public unwind<K extends ArrayField<T>, I extends string | undefined = undefined, Preserve extends boolean = false>(
+        spec: `$${K}` | (UnwindOptions<K, I> & { preserveNullAndEmptyArrays?: Preserve })
+    ): PipelineBuilder<UnwindOutput<T, K & keyof T, I, Preserve>> {
+        return this.append({ $unwind: spec });
+    }
+
+    /**
+     * Add or replace fields with computed values
+     */
+    public addFields<S extends Record<string, Expression<T>>>(spec: S): PipelineBuilder<AddFieldsOutput<T, S>> {
+        return this.append({ $addFields: spec });
+    }
+
+    /**
+     * Replace the documents with a single document holding their count, no document when there are none
+     */
+    public count<N extends string>(field: N): PipelineBuilder<{ [K in N]: number }> {
+        return this.append({ $count: field });
+    }
+
+    public sort(spec: PipelineSort<T>): PipelineBuilder<T> {
+        return this.append({ $sort: spec });
+    }
+
+    public skip(count: number): PipelineBuilder<T> {
+        return this.append({ $skip: count });
+    }
+
+    public limit(count: number): PipelineBuilder<T> {
+        return this.append({ $limit: count });
+    }
+
+    /**
+     * The stages built so far, as sent to the API
+     */
+    public build(): PipelineStage[] {
+        return [...this.stages];
+    }
+
+    private append<Next>(stage: PipelineStage): PipelineBuilder<Next> {
+        return new PipelineBuilder<Next>([...this.stages, stage]);
+    }
+}
+
+/**
+ * Start a typed aggregation pipeline over inventory items
+ * @example
+ * const pending = pipeline().match({ "transitTo.id": { $exists: true } }).count("inTransit");
+ */
+export function pipeline(): PipelineBuilder<AggregateItem> {
+    return new PipelineBuilder<AggregateItem>();
+}
@@ -0,0 +1,183 @@
+import type { QueryInventoryItem } from '../types/item';
+import type { DotNotationPaths, QueryInventoryItemFieldValues } from '../types/parser';
+import type { OperationQuery, MongoOperator } from '../types/query';
+
+export type QueryPath = DotNotationPaths<QueryInventoryItem>;
+
+type FieldValue<P extends QueryPath> = NonNullable<QueryInventoryItemFieldValues[P]>;
+
+// Dates travel as ISO strings, so both are accepted in range conditions
+type RangeValue<V> = V extends Date ? Date | string : V;
+
+type ElementQuery<E> = {
+    [K in keyof E]?: E[K] | MongoOperator<E[K]>;
+};
+
+interface CommonConditions<V> {
+    eq(value: V | null): QueryBuilder;
+    ne(value: V | null): QueryBuilder;
+    in(values: (V | null)[]): QueryBuilder;
+    nin(values: (V | null)[]): QueryBuilder;
+    exists(exists?: boolean): QueryBuilder;
+    type(type: string | number): QueryBuilder;
+}
+
+interface RangeConditions<V> {
+    gt(value: RangeValue<V>): QueryBuilder;
+    gte(value: RangeValue<V>): QueryBuilder;
+    lt(value: RangeValue<V>): QueryBuilder;
+    lte(value: RangeValue<V>): QueryBuilder;
+}
+
+interface StringConditions {
+    regex(pattern: string | RegExp, options?: string): QueryBuilder;
+}
+
+interface NumberConditions {
+    mod(divisor: number, remainder: number): QueryBuilder;
+}
+
+interface ArrayConditions<E> {
+    size(size: number): QueryBuilder;
+    elemMatch(query: ElementQuery<E>): QueryBuilder;
+}
+
+/**
+ * Operators available for a field, depending on the type of its value
+ */
+export type FieldConditions<V> =
+    [V] extends [(infer E)[]]
+        ? CommonConditions<V> & ArrayConditions<E>
+        : CommonConditions<V>
+            & ([V] extends [number | string | Date] ? RangeConditions<V> : {})
+            & ([V] extends [string] ? StringConditions : {})
+            & ([V] extends [number] ? NumberConditions : {});
+
+type QueryInput = QueryBuilder | OperationQuery;
+
+const toQuery = (input: QueryInput): OperationQuery =>
+    input instanceof QueryBuilder ? input.build() : input;
+
+/**
+ * Chainable builder producing a plain OperationQuery.
+ * Each field only exposes the operators valid for its type.
+ * @example
+ * const query = where("packageQuantity").gte(10)
+ *     .and("color.name").in(["Red", "Blue"])
+ *     .or(where("transitTo.id").exists(false), where("transitTo.client").eq("client-1"))
+ *     .build();
+ *
+ * await raukInventory.find(query);
+ */
+export class QueryBuilder {
+    private readonly conditions: Record<string, any> = {};
+    private readonly clauses: OperationQuery[] = [];
+    private readonly logical: { $or: OperationQuery[][]; $nor: OperationQuery[] } = { $or: [], $nor: [] };
+
+    /**
+     * Start a condition on a field, conditions on several fields are combined with AND
+     */
+    public where<P extends QueryPath>(path: P): FieldConditions<FieldValue<P>> {
+        const operator = (name: string) => (value: any) => this.addCondition(path, { [name]: value });
+
+        const conditions = {
+            eq: (value: any) => path in this.conditions
+                ? this.addCondition(path, { $eq: value })
+                : this.addCondition(path, value, false),
+            ne: operator('$ne'),
+            in: operator('$in'),
+            nin: operator('$nin'),
+            exists: (exists: boolean = true) => this.addCondition(path, { $exists: exists }),
+            type: operator('$type'),
+            gt: operator('$gt'),
+            gte: operator('$gte'),
+            lt: operator('$lt'),
+            lte: operator('$lte'),
+            regex: (pattern: string | RegExp, options?: string) => {
+                // RegExp objects do not survive JSON serialization, send their source and flags instead
+                const source = pattern instanceof RegExp ? pattern.source : pattern;
+                const flags = options ?? (pattern instanceof RegExp ? pattern.flags : '');
+                return this.addCondition(path, flags ? { $regex: source, $options: flags } : { $regex: source });
+            },
+            mod: (divisor: number, remainder: number) => this.addCondition(path, { $mod: [divisor, remainder] }),
+            size: operator('$size'),
+            elemMatch: operator('$elemMatch'),
+        };
+        return conditions as unknown as FieldConditions<FieldValue<P>>;
+    }
+
+    /**
+     * Alias of where, reads better when chaining conditions
+     */
+    public and<P extends QueryPath>(path: P): FieldConditions<FieldValue<P>> {
+        return this.where(path);
+    }
+
+    /**
+     * Require at least one of the given queries to match
+     */
+    public or(...queries: QueryInput[]): QueryBuilder {
+        this.logical.$or.push(queries.map(toQuery));
+        return this;
+    }
+
+    /**
+     * Require none of the given queries to match
+     */
+    public nor(...queries: QueryInput[]): QueryBuilder {
+        this.logical.$nor.push(...queries.map(toQuery));
+        return this;
+    }
+
+    /**
+     * Compile the conditions into a plain OperationQuery
+     */
+    public build(): OperationQuery {
+        // Copy the operator objects so later conditions do not leak into queries already built
+        const query: Record<string, any> = Object.fromEntries(Object.entries(this.conditions).map(
+            ([path, condition]) => [path, isOperatorObject(condition) ? { ...condition } : condition]
+        ));
+        const clauses = [...this.clauses];
+
+        const [firstOr, ...otherOrs] = this.logical.$or;
+        if (firstOr) {
+            query.$or = firstOr;
+        }
+        // Several or() calls must all hold, only one $or fits at the top level
+        clauses.push(...otherOrs.map(branches => ({ $or: branches })));
+        if (this.logical.$nor.length > 0) {
+            query.$nor = this.logical.$nor;
+        }
+        if (clauses.length > 0) {
+            query.$and = clauses;
+        }
+        return query as OperationQuery;
+    }
+
+    private addCondition(path: string, condition: any, isOperator: boolean = true): QueryBuilder {
+        const current = this.conditions[path];
+
+        if (current === undefined) {
+            this.conditions[path] = condition;
+        } else if (isOperator && isOperatorObject(current) && Object.keys(condition).every(key => !(key in current))) {
+            Object.assign(current, condition);
+        } else {
+            // Conflicting conditions on the same field are kept apart so neither overwrites the other
+            this.clauses.push({ [path]: condition } as OperationQuery);
+        }
+        return this;
+    }
+}
+
+const isOperatorObject = (value: any): value is Record<string, any> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)
+    && Object.keys(value).length > 0 && Object.keys(value).every(key => key.startsWith('$'));
+
+/**
+ * Start a query builder with a condition on a field
+ * @example
+ * const query = where("packageQuantity").gte(10).and("sku").regex(/^RED-/).build();
+ */
+export function where<P extends QueryPath>(path: P): FieldConditions<FieldValue<P>> {
+    return new QueryBuilder().where(path);
+}
@@ -0,0 +1,348 @@
+// Local evaluation of MongoDB-style queries against inventory items
+// Items may be raw API documents or hydrated items (Dates and availability Map)
+import type { InventoryItem } from '../types/item';
+import type { OperationQuery } from '../types/query';
+import { RaukQueryEvaluationError } from './errors';
+
+/**
+ * Resolve a dot-notation path, descending into arrays and Maps.
+ * Arrays met along the way contribute every element, like MongoDB does.
+ * @returns Every value reached by the path, [undefined] when nothing was reached
+ */
+export function resolvePath(document: any, path: string): any[] {
+    const values = resolveSegments(document, path.split('.'));
+    return values.length > 0 ? values : [undefined];
+}
+
+function resolveSegments(value: any, segments: string[]): any[] {
+    if (segments.length === 0) {
+        return [value];
+    }
+    if (value === null || value === undefined) {
+        return [];
+    }
+
+    const [segment, ...rest] = segments;
+
+    if (Array.isArray(value)) {
+        // Numeric segments address an array index, other segments fan out over the elements
+        if (/^\d+$/.test(segment)) {
+            return resolveSegments(value[Number(segment)], rest);
+        }
+        return value.flatMap(element => resolveSegments(element, segments));
+    }
+    if (value instanceof Map) {
+        return value.has(segment) ? resolveSegments(value.get(segment), rest) : [];
+    }
+    if (typeof value === 'object' && segment in value) {
+        return resolveSegments(value[segment], rest);
+    }
+    return [];
+}
+
+/**
+ * Get a single value by dot-notation path, without fanning out over arrays
+ */
+export function getValueByPath(document: any, path: string): any {
+    let value = document;
+    for (const segment of path.split('.')) {
+        if (value === null || value === undefined) {
+            return undefined;
+        }
+        value = value instanceof Map ? value.get(segment) : value[segment];
+    }
+    return value;
+}
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date) && !(value instanceof Map);
+
+const isOperatorObject = (value: any): value is Record<string, any> =>
+    isPlainObject(value) && Object.keys(value).length > 0 && Object.keys(value).every(key => key.startsWith('$'));
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+/**
+ * Normalize values so Dates and ISO date strings compare with each other
+ */
+function normalize(value: any): any {
+    if (value instanceof Date) {
+        return value.getTime();
+    }
+    if (value instanceof Map) {
+        return Object.fromEntries(value);
+    }
+    return value;
+}
+
+function normalizePair(a: any, b: any): [any, any] {
+    if (a instanceof Date && typeof b === 'string' && ISO_DATE.test(b)) {
+        return [a.getTime(), Date.parse(b)];
+    }
+    if (b instanceof Date && typeof a === 'string' && ISO_DATE.test(a)) {
+        return [Date.parse(a), b.getTime()];
+    }
+    return [normalize(a), normalize(b)];
+}
+
+/**
+ * Structural equality between two values
+ */
+export function valuesEqual(a: any, b: any): boolean {
+    const [left, right] = normalizePair(a, b);
+
+    if (left === right) {
+        return true;
+    }
+    if (left === null || right === null || left === undefined || right === undefined) {
+        // MongoDB treats a missing field as equal to null
+        return (left ?? null) === (right ?? null);
+    }
+    if (Array.isArray(left) && Array.isArray(right)) {
+        return left.length === right.length && left.every((entry, index) => valuesEqual(entry, right[index]));
+    }
+    if (isPlainObject(left) && isPlainObject(right)) {
+        const leftKeys = Object.keys(left);
+        const rightKeys = Object.keys(right);
+        return leftKeys.length === rightKeys.length
+            && leftKeys.every(key => valuesEqual(left[key], right[key]));
+    }
+    return false;
+}
+
+/**
+ * Order two values of the same kind
+ * @returns A negative number, zero or a positive number, or undefined when they cannot be compared
+ */
+export function compareValues(a: any, b: any): number | undefined {
+    const [left, right] = normalizePair(a, b);
+
+    if (typeof left === 'number' && typeof right === 'number') {
+        return left - right;
+    }
+    if (typeof left === 'string' && typeof right === 'string') {
+        return left < right ? -1 : left > right ? 1 : 0;
+    }
+    if (typeof left === 'boolean' && typeof right === 'boolean') {
+        return Number(left) - Number(right);
+    }
+    return undefined;
+}
+
+/**
+ * Values a condition is tested against: the resolved values plus the elements of resolved arrays
+ */
+function candidates(values: any[]): any[] {
+    return values.flatMap(value => Array.isArray(value) ? [value, ...value] : [value]);
+}
+
+function matchesEquality(values: any[], expected: any): boolean {
+    return candidates(values).some(value => valuesEqual(value, expected));
+}
+
+function matchesComparison(values: any[], expected: any, test: (order: number) => boolean): boolean {
+    return candidates(values).some(value => {
+        const order = compareValues(value, expected);
+        return order !== undefined && test(order);
+    });
+}
+
+type OperatorEvaluator = (values: any[], operand: any, condition: Record<string, any>) => boolean;
+
+const BSON_TYPE_ALIASES: Record<number, string> = {
+    1: 'double',
+    2: 'string',
+    3: 'object',
+    4: 'array',
+    8: 'bool',
+    9: 'date',
+    10: 'null',
+    16: 'int',
+    18: 'long',
+};
+
+/**
+ * Check a value against a $type alias. ISO date strings count as dates,
+ * since raw API documents carry their dates as strings.
+ */
+function hasType(value: any, type: string | number): boolean {
+    const alias = typeof type === 'number' ? BSON_TYPE_ALIASES[type] : type;
+    switch (alias) {
+        case 'double':
+            return typeof value === 'number';
+        case 'int':
+        case 'long':
+            return Number.isInteger(value);
+        case 'number':
+            return typeof value === 'number';
+        case 'string':
+            return typeof value === 'string';
+        case 'bool':
+            return typeof value === 'boolean';
+        case 'date':
+            return value instanceof Date || (typeof value === 'string' && ISO_DATE.test(value));
+        case 'null':
+            return value === null;
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return isPlainObject(value) || value instanceof Map;
+        default:
+            throw new RaukQueryEvaluationError(`Unknown $type ${type}`, '$type');
+    }
+}
+
+function toRegExp(pattern: any, options?: string): RegExp {
+    if (pattern instanceof RegExp) {
+        return options ? new RegExp(pattern.source, options) : pattern;
+    }
+    return new RegExp(String(pattern), options);
+}
+
+const OPERATORS: Record<string, OperatorEvaluator> = {
+    $eq: (values, operand) => matchesEquality(values, operand),
+    $ne: (values, operand) => !matchesEquality(values, operand),
+    $gt: (values, operand) => matchesComparison(values, operand, order => order > 0),
+    $gte: (values, operand) => matchesComparison(values, operand, order => order >= 0),
+    $lt: (values, operand) => matchesComparison(values, operand, order => order < 0),
+    $lte: (values, operand) => matchesComparison(values, operand, order => order <= 0),
+    $in: (values, operand) => toArray(operand, '$in').some(expected => matchesEquality(values, expected)),
+    $nin: (values, operand) => !toArray(operand, '$nin').some(expected => matchesEquality(values, expected)),
+    $exists: (values, operand) => values.some(value => value !== undefined) === Boolean(operand),
+    $regex: (values, operand, condition) => {
+        const regExp = toRegExp(operand, condition.$options);
+        return candidates(values).some(value => typeof value === 'string' && regExp.test(value));
+    },
+    // Only meaningful next to $regex, which reads it from the condition
+    $options: () => true,
+    $size: (values, operand) => values.some(value => Array.isArray(value) && value.length === operand),
+    $mod: (values, operand) => {
+        const [divisor, remainder] = toArray(operand, '$mod');
+        return candidates(values).some(value => typeof value === 'number' && value % divisor === remainder);
+    },
+    $type: (values, operand) => {
+        const types = Array.isArray(operand) ? operand : [operand];
+        return candidates(values).some(value => value !== undefined && types.some(type => hasType(value, type)));
+    },
+    $elemMatch: (values, operand) => values.some(value =>
+        Array.isArray(value) && value.some(element =>
+            isOperatorObject(operand)
+                ? matchesOperators([element], operand)
+                : isPlainObject(element) && evaluateQuery(element, operand)
+        )
+    ),
+    $not: (values, operand) => {
+        const condition = isOperatorObject(operand) ? operand : { $regex: operand };
+        return !matchesOperators(values, condition);
+    },
+};
+
+// Operators that need the server (text indexes, aggregation expressions, JavaScript)
+const UNSUPPORTED_OPERATORS = ['$text', '$expr', '$where', '$jsonSchema', '$near', '$geoWithin'];
+
+function toArray(operand: any, operator: string): any[] {
+    if (!Array.isArray(operand)) {
+        throw new RaukQueryEvaluationError(`${operator} needs an array`, operator);
+    }
+    return operand;
+}
+
+function matchesOperators(values: any[], condition: Record<string, any>): boolean {
+    return Object.entries(condition).every(([operator, operand]) => {
+        const evaluate = OPERATORS[operator];
+        if (!evaluate) {
+            throw unsupportedOperator(operator);
+        }
+        return evaluate(values, operand, condition);
+    });
+}
+
+function matchesCondition(document: any, path: string, condition: any): boolean {
+    const values = resolvePath(document, path);
+
+    if (condition instanceof RegExp) {
+        return OPERATORS.$regex(values, condition, {});
+    }
+    if (!isOperatorObject(condition)) {
+        return matchesEquality(values, condition);
+    }
+    return matchesOperators(values, condition);
+}
+
+function unsupportedOperator(operator: string): RaukQueryEvaluationError {
+    return UNSUPPORTED_OPERATORS.includes(operator)
+        ? new RaukQueryEvaluationError(`${operator} cannot be evaluated locally, run the query against the API instead`, operator)
+        : new RaukQueryEvaluationError(`Unknown query operator ${operator}`, operator);
+}
+
+/**
+ * Walk a query and reject operators that cannot be evaluated, before any document is tested
+ */
+function assertSupportedQuery(query: Record<string, any>): void {
+    for (const [key, condition] of Object.entries(query ?? {})) {
+        if (key === '$and' || key === '$or' || key === '$nor') {
+            toArray(condition, key).forEach(assertSupportedQuery);
+        } else if (key === '$not') {
+            assertSupportedQuery(condition);
+        } else if (key.startsWith('$')) {
+            throw unsupportedOperator(key);
+        } else if (isOperatorObject(condition)) {
+            assertSupportedOperators(condition);
+        }
+    }
+}
+
+function assertSupportedOperators(condition: Record<string, any>): void {
+    for (const [operator, operand] of Object.entries(condition)) {
+        if (!OPERATORS[operator]) {
+            throw unsupportedOperator(operator);
+        }
+        if (operator === '$elemMatch' || operator === '$not') {
+            if (isOperatorObject(operand)) {
+                assertSupportedOperators(operand);
+            } else if (operator === '$elemMatch') {
+                assertSupportedQuery(operand);
+            }
+        }
+    }
+}
+
+function evaluateQuery(document: any, query: Record<string, any>): boolean {
+    return Object.entries(query).every(([key, condition]) => {
+        switch (key) {
+            case '$and':
+                return (condition as Record<string, any>[]).every(subQuery => evaluateQuery(document, subQuery));
+            case '$or':
+                return (condition as Record<string, any>[]).some(subQuery => evaluateQuery(document, subQuery));
+            case '$nor':
+                return !(condition as Record<string, any>[]).some(subQuery => evaluateQuery(document, subQuery));
+            case '$not':
+                return !evaluateQuery(document, condition);
+            default:
+                return matchesCondition(document, key, condition);
+        }
+    });
+}
+
+/**
+ * Check whether an item matches a query, without a round trip to the API.
+ * Works on raw API documents as well as hydrated items (Dates and the availability Map).
+ * @throws RaukQueryEvaluationError when the query uses operators that cannot be evaluated locally, like $text or $expr
+ * @example
+ * matchesQuery(item, { packageQuantity: { $gte: 10 }, "color.name": { $regex: "^red", $options: "i" } });
+ */
+export function matchesQuery(document: InventoryItem | Record<string, any>, query: OperationQuery | Record<string, any>): boolean {
+    assertSupportedQuery(query);
+    return evaluateQuery(document, query);
+}
+
+/**
+ * Build a reusable predicate for a query, validating the query once
+ * @example
+ * const lowStock = createQueryMatcher({ packageQuantity: { $lt: 5 } });
+ * const lowStockItems = items.filter(lowStock);
+ */
+export function createQueryMatcher(query: OperationQuery | Record<string, any>): (document: InventoryItem | Record<string, any>) => boolean {
+    assertSupportedQuery(query);
+    return document => evaluateQuery(document, query);
+}
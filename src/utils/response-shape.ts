@@ -0,0 +1,186 @@
+// Runtime verification of API responses against the shapes the client declares
+import { RaukResponseShapeError } from './errors';
+
+export type ResponseValidationMode = 'off' | 'warn' | 'strict';
+
+type ShapeType = 'string' | 'number' | 'boolean' | 'date' | 'object' | 'array';
+
+export interface Shape {
+    type: ShapeType;
+    optional?: boolean;
+    nullable?: boolean;
+    fields?: Record<string, Shape>;
+    items?: Shape;
+}
+
+export interface ShapeMismatch {
+    path: string;
+    expected: string;
+    received: string;
+}
+
+const optional = (shape: Shape): Shape => ({ ...shape, optional: true });
+const nullable = (shape: Shape): Shape => ({ ...shape, optional: true, nullable: true });
+const object = (fields: Record<string, Shape> = {}): Shape => ({ type: 'object', fields });
+const string: Shape = { type: 'string' };
+const number: Shape = { type: 'number' };
+const boolean: Shape = { type: 'boolean' };
+const date: Shape = { type: 'date' };
+
+const STATUS_DETAILS = object({
+    orderId: optional(string),
+    date: optional(date),
+    temporary: optional(boolean),
+    expiration: optional(date),
+});
+
+const DETAILS = object({
+    id: optional(string),
+    name: optional(string),
+    type: optional(string),
+    subType: optional(string),
+});
+
+// InventoryItem as it travels over the wire, dates are ISO strings and availability a plain object
+export const INVENTORY_ITEM_SHAPE: Shape = object({
+    id: string,
+    hardcode: optional(string),
+    sku: string,
+    packageQuantity: number,
+    entities: object({
+        apiId: optional(string),
+        entityId: optional(string),
+        factoryId: optional(string),
+        brandId: optional(string),
+    }),
+    currentLocation: object({ id: nullable(string), name: nullable(string), details: optional(object()) }),
+    transitTo: optional(object({ id: nullable(string), client: nullable(string) })),
+    availability: optional(object({
+        produced: optional(STATUS_DETAILS),
+        reserved: optional(STATUS_DETAILS),
+        sold: optional(STATUS_DETAILS),
+    })),
+    brandDetails: optional(DETAILS),
+    color: object({ id: optional(string), name: optional(string) }),
+    factoryDetails: optional(DETAILS),
+    deleted: object({ status: boolean, deletionDate: optional(date) }),
+    locationHistory: optional({ type: 'array', items: object({ id: string, name: string, date }) }),
+    createdAt: optional(date),
+    updatedAt: optional(date),
+});
+
+export const UPDATE_RESULT_SHAPE: Shape = object({ acknowledged: boolean, matchedCount: number, modifiedCount: number });
+
+export const DELETE_RESULT_SHAPE: Shape = object({ deletedCount: number });
+
+export const INSERT_RESULT_SHAPE: Shape = object({ acknowledged: boolean, insertedId: string });
+
+const describe = (value: any): string => {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    return typeof value;
+};
+
+const matchesType = (value: any, type: ShapeType): boolean => {
+    switch (type) {
+        case 'date':
+            return (typeof value === 'string' && !Number.isNaN(Date.parse(value))) || value instanceof Date;
+        case 'object':
+            return value !== null && typeof value === 'object' && !Array.isArray(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        default:
+            return typeof value === type;
+    }
+};
+
+/**
+ * Find the first place where a value does not fit a shape.
+ * With partial set, missing fields are accepted, for projected documents.
+ */
+export function findShapeMismatch(value: any, shape: Shape, path: string, partial: boolean = false): ShapeMismatch | null {
+    if (value === undefined) {
+        return shape.optional || partial ? null : { path, expected: shape.type, received: 'undefined' };
+    }
+    if (value === null) {
+        return shape.nullable ? null : { path, expected: shape.type, received: 'null' };
+    }
+    if (!matchesType(value, shape.type)) {
+        return { path, expected: shape.type, received: describe(value) };
+    }
+
+    if (shape.type === 'array' && shape.items) {
+        for (let index = 0; index < value.length; index++) {
+            const mismatch = findShapeMismatch(value[index], shape.items, `${path}[${index}]`, partial);
+            if (mismatch) {
+                return mismatch;
+            }
+        }
+    }
+    if (shape.type === 'object' && shape.fields) {
+        for (const [field, fieldShape] of Object.entries(shape.fields)) {
+            const mismatch = findShapeMismatch(value[field], fieldShape, `${path}.${field}`, partial);
+            if (mismatch) {
+                return mismatch;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Shape expected for the response of an operation, null when the operation is not verified
+ */
+export function getResponseShape(operation: string, data: any): Shape | null {
+    switch (operation) {
+        case 'find':
+            return { type: 'array', items: INVENTORY_ITEM_SHAPE };
+        case 'insertOne':
+            return data !== null && typeof data === 'object' && 'insertedId' in data ? INSERT_RESULT_SHAPE : INVENTORY_ITEM_SHAPE;
+        case 'findOneAndUpdate':
+        case 'updateMany':
+            return UPDATE_RESULT_SHAPE;
+        case 'deleteOne':
+        case 'deleteMany':
+            return DELETE_RESULT_SHAPE;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Verify a response, throwing or warning depending on the mode
+ * @param partial - Accept missing fields, set when the request selected fields
+ */
+export function verifyResponseShape(
+    mode: ResponseValidationMode,
+    operation: string,
+    data: any,
+    partial: boolean = false,
+    warn: (message: string) => void = message => console.warn(message)
+): void {
+    if (mode === 'off') {
+        return;
+    }
+    const shape = getResponseShape(operation, data);
+    const mismatch = shape && findShapeMismatch(data, shape, 'response', partial);
+    if (!mismatch) {
+        return;
+    }
+
+    const error = new RaukResponseShapeError(
+        `Unexpected ${operation} response: ${mismatch.path} should be ${mismatch.expected} but is ${mismatch.received}`,
+        mismatch.path,
+        { timestamp: new Date().toISOString(), context: { operation, expected: mismatch.expected, received: mismatch.received } }
+    );
+    if (mode === 'strict') {
+        throw error;
+    }
+    warn(`[rauk-inventory] ${error.message}`);
+}
@@ -0,0 +1,116 @@
+import { RaukError } from './errors';
+import { IDEMPOTENCY_KEY_OPERATIONS } from '../core/idempotency';
+
+export interface RetryPolicy {
+    /** Total number of attempts, including the first one */
+    maxAttempts: number;
+    /** Delay before the first retry, doubled on every following attempt */
+    baseDelayMs: number;
+    /** Upper bound for a single delay, no retry is made when a Retry-After asks for a longer wait */
+    maxDelayMs: number;
+    /** Randomize each delay between 0 and the computed backoff ("full jitter") */
+    jitter: boolean;
+    /** Error classes retried in addition to the errors flagged retryable */
+    retryableErrors: Array<new (...args: any[]) => RaukError>;
+    /** HTTP status codes retried in addition to the errors flagged retryable */
+    retryableStatusCodes: number[];
+    /** Wait for the server provided Retry-After header when present */
+    respectRetryAfter: boolean;
+    /** Also retry operations that are not idempotent, like insertOne, without a caller-supplied idempotency key */
+    retryNonIdempotent: boolean;
+}
+
+export type RetryPolicyConfig = boolean | Partial<RetryPolicy>;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 200,
+    maxDelayMs: 5000,
+    jitter: true,
+    retryableErrors: [],
+    retryableStatusCodes: [],
+    respectRetryAfter: true,
+    retryNonIdempotent: false,
+};
+
+/**
+ * Resolve the retry configuration passed to the client into a complete policy
+ * @returns The policy, or null when retries are disabled
+ */
+export function resolveRetryPolicy(config?: RetryPolicyConfig): RetryPolicy | null {
+    if (!config) {
+        return null;
+    }
+    if (config === true) {
+        return { ...DEFAULT_RETRY_POLICY };
+    }
+    return { ...DEFAULT_RETRY_POLICY, ...config };
+}
+
+/**
+ * Number of attempts allowed for an operation under the given policy
+ * @param idempotencyKey - Key supplied by the caller, the API applies the request only once then
+ */
+export function getMaxAttempts(policy: RetryPolicy | null, operation: string, idempotencyKey?: string): number {
+    if (!policy) {
+        return 1;
+    }
+    if (IDEMPOTENCY_KEY_OPERATIONS.includes(operation) && idempotencyKey === undefined && !policy.retryNonIdempotent) {
+        return 1;
+    }
+    return Math.max(1, policy.maxAttempts);
+}
+
+/**
+ * Check whether an error thrown by a request should be retried.
+ * The retryable flag set by the error classes decides, the policy can only add errors to retry.
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+    if (!(error instanceof RaukError)) {
+        return false;
+    }
+    if (error.retryable) {
+        return true;
+    }
+    if (policy.retryableErrors.some(errorClass => error instanceof errorClass)) {
+        return true;
+    }
+    return error.statusCode !== undefined && policy.retryableStatusCodes.includes(error.statusCode);
+}
+
+/**
+ * Compute the delay before the next attempt
+ * @param policy - The retry policy
+ * @param attempt - The attempt that just failed, starting at 1
+ * @param error - The error thrown by the failed attempt
+ * @returns The delay, or undefined when the server asks to wait longer than maxDelayMs and retrying earlier would be refused
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number, error?: unknown): number | undefined {
+    if (policy.respectRetryAfter && error instanceof RaukError) {
+        const retryAfter = error.context?.retryAfterMs;
+        if (typeof retryAfter === 'number' && retryAfter >= 0) {
+            return retryAfter <= policy.maxDelayMs ? retryAfter : undefined;
+        }
+    }
+
+    const backoff = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+    return policy.jitter ? Math.floor(Math.random() * backoff) : backoff;
+}
+
+/**
+ * Wait for the given delay, resolving early when the signal is aborted
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise(resolve => {
+    if (signal?.aborted) {
+        return resolve();
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
@@ -1,4 +1,35 @@
 import crypto from "crypto";
+import type { RaukCredentials } from "../core/credentials";
+
+/**
+ * Signature schemes:
+ * - v1: `apiKeyId.apiPublicKey.hmac.base64(time)`, the HMAC covers the body and the time
+ * - v2: `v2.apiKeyId.apiPublicKey.nonce.hmac.base64(time)`, the HMAC also covers a random nonce,
+ *   the HTTP method and the path, so a server keeping the nonces can refuse replayed requests
+ */
+export type SignatureVersion = "v1" | "v2";
+
+export interface SignRequestOptions {
+    /** Signature scheme, defaults to "v1" */
+    version?: SignatureVersion;
+    /** HTTP method covered by v2 signatures, defaults to "POST" */
+    method?: string;
+    /** URL path covered by v2 signatures, defaults to "/query" */
+    path?: string;
+}
+
+const DEFAULT_METHOD = "POST";
+const DEFAULT_PATH = "/query";
+
+// Data covered by the HMAC of each scheme
+const signedData = (
+    version: SignatureVersion,
+    body: string,
+    time: string,
+    { nonce = "", method = DEFAULT_METHOD, path = DEFAULT_PATH }: { nonce?: string; method?: string; path?: string }
+) => version === "v2"
+    ? ["v2", method.toUpperCase(), path, time, nonce, body].join("\n")
+    : body + time;
 
 /**
  * Signs a request to the Rauk Inventory API
@@ -6,20 +37,18 @@ import crypto from "crypto";
  * @param apiSecret - The API secret
  * @param apiPublicKey - The API public key
  * @param body - The body of the request
+ * @param options - Signature scheme, and the method and path covered by v2 signatures
  * @returns The signed request
  */
 export const signRequest = ({
     apiKeyId,
     apiSecret,
     apiPublicKey,
-}: {
-    apiKeyId: string;
-    apiSecret: string;
-    apiPublicKey: string;
-}, body: object) => {
+}: RaukCredentials, body: object, { version = "v1", method, path }: SignRequestOptions = {}) => {
 
     const time = Date.now().toString();
-    const data = JSON.stringify(body) + time;
+    const nonce = version === "v2" ? crypto.randomBytes(16).toString("hex") : undefined;
+    const data = signedData(version, JSON.stringify(body), time, { nonce, method, path });
 
     try {
         const hmac = crypto
@@ -27,11 +56,193 @@ export const signRequest = ({
             .update(data)
             .digest("hex");
         const b64Time = Buffer.from(time).toString("base64");
-        return `${apiKeyId}.${apiPublicKey}.${hmac}.${b64Time}`;
+        return version === "v2"
+            ? `v2.${apiKeyId}.${apiPublicKey}.${nonce}.${hmac}.${b64Time}`
+            : `${apiKeyId}.${apiPublicKey}.${hmac}.${b64Time}`;
     } catch (e) {
         console.error(e);
         throw new Error("Failed to generate signature");
     }
 }
 
+export type SignatureFailureReason =
+    | "missing-signature"
+    | "malformed-signature"
+    | "unsupported-version"
+    | "stale-timestamp"
+    | "future-timestamp"
+    | "unknown-key"
+    | "invalid-signature"
+    | "replayed-nonce";
+
+export type SignatureVerificationResult =
+    | { valid: true; version: SignatureVersion; apiKeyId: string; apiPublicKey: string; timestamp: number; nonce?: string }
+    | { valid: false; reason: SignatureFailureReason };
+
+/**
+ * Finds the secret of an API key, undefined or null for unknown keys
+ */
+export type SignatureSecretLookup = (
+    apiKeyId: string,
+    apiPublicKey: string
+) => string | null | undefined | Promise<string | null | undefined>;
+
+/**
+ * Remembers the nonces of accepted v2 signatures
+ */
+export interface NonceStore {
+    /**
+     * Record a nonce until the given time
+     * @returns false when the nonce was already recorded and has not expired
+     */
+    add(apiKeyId: string, nonce: string, expiresAt: number): boolean | Promise<boolean>;
+}
+
+export interface VerifySignatureOptions {
+    /** Largest accepted distance between the signature timestamp and now, defaults to 5 minutes */
+    maxSkewMs?: number;
+    /** Current time in epoch milliseconds, defaults to Date.now() */
+    now?: number;
+    /** HTTP method of the request, checked by v2 signatures, defaults to "POST" */
+    method?: string;
+    /** URL path of the request, checked by v2 signatures, defaults to "/query" */
+    path?: string;
+    /** Accepted signature schemes, defaults to both, set to ["v2"] to refuse signatures without a nonce */
+    versions?: SignatureVersion[];
+    /** Refuses v2 signatures whose nonce was already used, replays are not detected without it */
+    nonceStore?: NonceStore;
+}
+
+const DEFAULT_MAX_SKEW_MS = 5 * 60 * 1000;
+
+interface ParsedSignature {
+    version: SignatureVersion;
+    apiKeyId: string;
+    apiPublicKey: string;
+    nonce?: string;
+    hmac: string;
+    time: string;
+}
+
+function parseSignature(header: string): ParsedSignature | undefined {
+    const parts = header.split(".");
+    let parsed: Omit<ParsedSignature, "time"> & { b64Time: string };
+    if (parts.length === 6 && parts[0] === "v2") {
+        const [, apiKeyId, apiPublicKey, nonce, hmac, b64Time] = parts;
+        if (!/^[0-9a-f]{32}$/.test(nonce)) {
+            return undefined;
+        }
+        parsed = { version: "v2", apiKeyId, apiPublicKey, nonce, hmac, b64Time };
+    } else if (parts.length === 4) {
+        const [apiKeyId, apiPublicKey, hmac, b64Time] = parts;
+        parsed = { version: "v1", apiKeyId, apiPublicKey, hmac, b64Time };
+    } else {
+        return undefined;
+    }
 
+    const { b64Time, ...signature } = parsed;
+    const time = Buffer.from(b64Time, "base64").toString();
+    if (!signature.apiKeyId || !signature.apiPublicKey || !/^[0-9a-f]{64}$/.test(signature.hmac) || !/^\d+$/.test(time)) {
+        return undefined;
+    }
+    return { ...signature, time };
+}
+
+/**
+ * Verifies a Rai-Signature header produced by signRequest, the way the Rauk Inventory API does
+ * @param header - The Rai-Signature header
+ * @param body - The request body, the raw JSON string as received or the parsed request array
+ * @param secretLookup - Finds the secret of the API key the request claims
+ * @param options - Accepted clock skew and schemes, the method and path of the request and the nonce store
+ * @returns The key that signed the request, or the reason the signature was refused
+ * @example
+ * const nonceStore = createMemoryNonceStore();
+ * const result = await verifySignature(req.headers["rai-signature"], req.body, (keyId) => secrets.get(keyId), {
+ *     method: req.method,
+ *     path: req.path,
+ *     nonceStore
+ * });
+ * if (!result.valid) {
+ *     return res.status(401).json({ success: false, error: { name: "AuthenticationError", message: result.reason } });
+ * }
+ */
+export const verifySignature = async (
+    header: string | null | undefined,
+    body: object | string,
+    secretLookup: SignatureSecretLookup,
+    {
+        maxSkewMs = DEFAULT_MAX_SKEW_MS,
+        now = Date.now(),
+        method,
+        path,
+        versions = ["v1", "v2"],
+        nonceStore,
+    }: VerifySignatureOptions = {}
+): Promise<SignatureVerificationResult> => {
+    if (!header) {
+        return { valid: false, reason: "missing-signature" };
+    }
+
+    const signature = parseSignature(header);
+    if (!signature) {
+        return { valid: false, reason: "malformed-signature" };
+    }
+    const { version, apiKeyId, apiPublicKey, nonce, hmac, time } = signature;
+    if (!versions.includes(version)) {
+        return { valid: false, reason: "unsupported-version" };
+    }
+
+    // Checked before the lookup, replaying an old request costs no secret lookup
+    const timestamp = Number(time);
+    if (timestamp < now - maxSkewMs) {
+        return { valid: false, reason: "stale-timestamp" };
+    }
+    if (timestamp > now + maxSkewMs) {
+        return { valid: false, reason: "future-timestamp" };
+    }
+
+    const apiSecret = await secretLookup(apiKeyId, apiPublicKey);
+    if (!apiSecret) {
+        return { valid: false, reason: "unknown-key" };
+    }
+
+    const data = signedData(version, typeof body === "string" ? body : JSON.stringify(body), time, { nonce, method, path });
+    const expected = crypto.createHmac("sha256", apiSecret).update(data).digest();
+    if (!crypto.timingSafeEqual(expected, Buffer.from(hmac, "hex"))) {
+        return { valid: false, reason: "invalid-signature" };
+    }
+
+    // Only recorded once the signature is valid, so forged requests cannot burn nonces.
+    // Kept until the timestamp leaves the skew window, older replays are refused as stale.
+    if (nonce !== undefined && nonceStore && !(await nonceStore.add(apiKeyId, nonce, timestamp + maxSkewMs))) {
+        return { valid: false, reason: "replayed-nonce" };
+    }
+
+    return { valid: true, version, apiKeyId, apiPublicKey, timestamp, ...(nonce !== undefined ? { nonce } : {}) };
+};
+
+/**
+ * Nonce store keeping the nonces in memory, for a single server process
+ * @param now - Clock used to drop expired nonces, defaults to Date.now
+ */
+export function createMemoryNonceStore(now: () => number = Date.now): NonceStore {
+    const nonces = new Map<string, number>();
+
+    return {
+        add: (apiKeyId, nonce, expiresAt) => {
+            const current = now();
+            for (const [key, expiry] of nonces) {
+                if (expiry < current) {
+                    nonces.delete(key);
+                }
+            }
+
+            const key = `${apiKeyId}.${nonce}`;
+            if (nonces.has(key)) {
+                return false;
+            }
+            nonces.set(key, expiresAt);
+            return true;
+        },
+    };
+}
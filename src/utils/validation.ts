@@ -0,0 +1,160 @@
+// Client-side validation mirroring the Rauk API validation rules
+// Errors use the same ValidationErrorDetail tree the API answers with
+import type { OperationBulkWrite } from '../types/operations';
+import { RaukValidationError, ValidationErrorDetail, flattenValidationMessages } from './errors';
+
+// Fields managed by the API, never writable through an update
+const READONLY_UPDATE_FIELDS = ['entities', 'id', 'locationHistory'];
+
+// Update operators allowed to append to the location history, which is append-only
+const APPEND_OPERATORS = ['$push'];
+
+const isObject = (value: any): value is Record<string, any> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const detail = (property: string, constraints: string[], children: ValidationErrorDetail[] = []): ValidationErrorDetail => ({
+    property,
+    constraints,
+    children,
+});
+
+function validateString(object: Record<string, any>, property: string): ValidationErrorDetail | null {
+    const value = object[property];
+    if (value === null || value === undefined) {
+        return detail(property, [`${property} should not be null or undefined`]);
+    }
+    if (typeof value !== 'string') {
+        return detail(property, [`${property} must be a string`]);
+    }
+    if (value.trim() === '') {
+        return detail(property, [`${property} should not be empty`]);
+    }
+    return null;
+}
+
+/**
+ * Validate a nested object and the required string properties inside it
+ */
+function validateNested(item: Record<string, any>, property: string, requiredStrings: string[]): ValidationErrorDetail | null {
+    const value = item[property];
+    if (value === null || value === undefined) {
+        return detail(property, [`${property} should not be null or undefined`]);
+    }
+    if (!isObject(value)) {
+        return detail(property, [`nested property ${property} must be either object or array`]);
+    }
+
+    const children = requiredStrings
+        .map(child => validateString(value, child))
+        .filter((error): error is ValidationErrorDetail => error !== null);
+    return children.length > 0 ? detail(property, [], children) : null;
+}
+
+/**
+ * Validate an item before it is created, accepts any value so payloads received over the wire can be checked
+ * @returns The validation errors, empty when the item is valid
+ */
+export function validateCreateItem(item: unknown): ValidationErrorDetail[] {
+    if (!isObject(item)) {
+        return [detail('item', ['item must be an object'])];
+    }
+
+    const errors: (ValidationErrorDetail | null)[] = [
+        validateNested(item, 'entities', ['factoryId', 'brandId']),
+        validateString(item, 'sku'),
+        validateNested(item, 'currentLocation', []),
+        validateNested(item, 'color', ['id']),
+        validateNested(item, 'brandDetails', ['type', 'id']),
+        validateNested(item, 'factoryDetails', ['type', 'id']),
+    ];
+
+    const quantity = item.packageQuantity;
+    if (quantity === null || quantity === undefined) {
+        errors.push(detail('packageQuantity', ['packageQuantity should not be null or undefined']));
+    } else if (typeof quantity !== 'number' || !Number.isFinite(quantity) || quantity <= 0) {
+        errors.push(detail('packageQuantity', ['packageQuantity must be a positive number']));
+    }
+
+    return errors.filter((error): error is ValidationErrorDetail => error !== null);
+}
+
+/**
+ * Validate an update document, rejecting writes to the fields managed by the API, accepts any value like validateCreateItem
+ * @returns The validation errors, empty when the update is valid
+ */
+export function validateUpdateItem(update: unknown): ValidationErrorDetail[] {
+    if (!isObject(update)) {
+        return [detail('update', ['update must be an object'])];
+    }
+
+    const errors: ValidationErrorDetail[] = [];
+    const checkPaths = (paths: string[], operator?: string) => {
+        for (const path of paths) {
+            const [field] = path.split('.');
+            if (!READONLY_UPDATE_FIELDS.includes(field)) {
+                continue;
+            }
+            if (field === 'locationHistory' && operator && APPEND_OPERATORS.includes(operator) && path === field) {
+                continue;
+            }
+            errors.push(detail(field, [`property ${field} should not exist`]));
+        }
+    };
+
+    for (const [key, value] of Object.entries(update)) {
+        if (key.startsWith('$')) {
+            if (!isObject(value)) {
+                errors.push(detail(key, [`${key} must be an object`]));
+                continue;
+            }
+            const operatorErrors = errors.length;
+            checkPaths(Object.keys(value), key);
+            if (errors.length > operatorErrors) {
+                // Errors found inside an operator are nested under the operator
+                const children = errors.splice(operatorErrors);
+                errors.push(detail(key, [], children));
+            }
+        } else {
+            checkPaths([key]);
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Validate every document and update of a bulk write, errors are nested under the operation index
+ * @returns The validation errors, empty when every operation is valid
+ */
+export function validateBulkWrite(operations: OperationBulkWrite): ValidationErrorDetail[] {
+    return operations.flatMap((operation, index) => {
+        let children: ValidationErrorDetail[] = [];
+        if ('insertOne' in operation) {
+            children = [detail('insertOne', [], validateCreateItem(operation.insertOne.document))];
+        } else if ('replaceOne' in operation) {
+            children = [detail('replaceOne', [], validateCreateItem(operation.replaceOne.replacement))];
+        } else if ('updateOne' in operation) {
+            children = [detail('updateOne', [], validateUpdateItem(operation.updateOne.update))];
+        }
+        children = children.filter(child => child.children.length > 0);
+        return children.length > 0 ? [detail(String(index), [], children)] : [];
+    });
+}
+
+/**
+ * Throw a RaukValidationError when validation produced errors
+ */
+export function throwIfInvalid(errors: ValidationErrorDetail[]): void {
+    if (errors.length === 0) {
+        return;
+    }
+
+    throw new RaukValidationError(
+        flattenValidationMessages(errors).join('; '),
+        errors,
+        {
+            timestamp: new Date().toISOString(),
+            context: { source: 'client' }
+        }
+    );
+}
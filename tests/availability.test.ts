@@ -0,0 +1,188 @@
+import { RaukInventoryClient, RaukInventoryEmulator } from "../src/index";
+import type { RaukTransport } from "../src/core/transport";
+import { RaukConflictError } from "../src/utils/errors";
+
+describe("availability workflow", () => {
+  const config = {
+    apiKeyId: "test-key",
+    apiSecret: "test-secret",
+    apiPublicKey: "test-public",
+  };
+
+  let emulator: RaukInventoryEmulator;
+  let client: RaukInventoryClient;
+
+  const availabilityOf = (sku: string) => emulator.items.find((item) => item.sku === sku)?.availability;
+  const idOf = (sku: string) => emulator.items.find((item) => item.sku === sku)?.id;
+
+  beforeEach(() => {
+    emulator = new RaukInventoryEmulator({
+      items: [
+        { sku: "ITEM-001", packageQuantity: 1 },
+        { sku: "ITEM-002", packageQuantity: 1 },
+        {
+          sku: "ITEM-003",
+          packageQuantity: 1,
+          availability: { sold: { orderId: "order-9", date: "2024-01-01T00:00:00.000Z" } },
+        },
+      ],
+    });
+    client = new RaukInventoryClient({ ...config, transport: emulator });
+  });
+
+  it("should reserve items and report which changed", async () => {
+    const expiresAt = new Date("2024-01-01T00:15:00.000Z");
+
+    const result = await client.reserve(
+      { sku: { $in: ["ITEM-001", "ITEM-002"] } },
+      { orderId: "order-1", expiresAt, date: "2024-01-01T00:00:00.000Z" }
+    );
+
+    expect(result).toEqual({ changedIds: [idOf("ITEM-001"), idOf("ITEM-002")], unchangedIds: [] });
+    expect(availabilityOf("ITEM-001")).toEqual({
+      reserved: {
+        orderId: "order-1",
+        date: "2024-01-01T00:00:00.000Z",
+        temporary: true,
+        expiration: "2024-01-01T00:15:00.000Z",
+      },
+    });
+  });
+
+  it("should send the updates in one bulk write carrying the caller's key", async () => {
+    const keys: (string | undefined)[] = [];
+    const recording = new RaukInventoryClient({
+      ...config,
+      transport: {
+        send: (request) => {
+          keys.push(request.headers["Idempotency-Key"]);
+          return emulator.send(request);
+        },
+      },
+    });
+
+    const result = await recording.reserve(
+      { sku: { $in: ["ITEM-001", "ITEM-002"] } },
+      { orderId: "order-1" },
+      { idempotencyKey: "key-1" }
+    );
+
+    expect(result.changedIds).toEqual([idOf("ITEM-001"), idOf("ITEM-002")]);
+    // The find carries no key
+    expect(keys).toEqual([undefined, "key-1"]);
+    expect(availabilityOf("ITEM-002")?.reserved?.orderId).toBe("order-1");
+  });
+
+  it("should walk every page of matches and leave items already in the requested state untouched", async () => {
+    emulator.reset(Array.from({ length: 150 }, (_, index) => ({ sku: `BULK-${index}`, packageQuantity: 1 })));
+    const operations: string[] = [];
+    client = new RaukInventoryClient({
+      ...config,
+      transport: {
+        send: (request) => {
+          operations.push(JSON.parse(request.body)[0]);
+          return emulator.send(request);
+        },
+      },
+    });
+    const expiresAt = new Date("2024-01-01T00:15:00.000Z");
+
+    const first = await client.reserve({}, { orderId: "order-1", expiresAt });
+    expect(first.changedIds).toHaveLength(150);
+    expect(operations).toEqual(["find", "find", "bulkWrite"]);
+
+    const repeated = await client.reserve({ sku: "BULK-0" }, { orderId: "order-1", expiresAt });
+    expect(repeated).toEqual({ changedIds: [], unchangedIds: [idOf("BULK-0")] });
+
+    const renewed = await client.reserve({ sku: "BULK-0" }, { orderId: "order-1", expiresAt: "2024-01-01T00:30:00.000Z" });
+    expect(renewed).toEqual({ changedIds: [idOf("BULK-0")], unchangedIds: [] });
+    expect(availabilityOf("BULK-0")?.reserved?.expiration).toBe("2024-01-01T00:30:00.000Z");
+  });
+
+  it("should refuse to reserve sold items or items held by another order", async () => {
+    await client.reserve({ sku: "ITEM-001" }, { orderId: "order-1" });
+
+    const error = await client
+      .reserve({ sku: { $in: ["ITEM-001", "ITEM-002", "ITEM-003"] } }, { orderId: "order-2" })
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RaukConflictError);
+    expect(error.conflicts).toEqual([
+      { id: idOf("ITEM-001"), reason: "reserved by order order-1" },
+      { id: idOf("ITEM-003"), reason: "already sold to order order-9" },
+    ]);
+    // Nothing is written when one of the items cannot be reserved
+    expect(availabilityOf("ITEM-002")).toEqual({});
+  });
+
+  it("should release reservations of an order", async () => {
+    await client.reserve({ sku: "ITEM-001" }, { orderId: "order-1" });
+
+    await expect(
+      client.releaseReservation({ sku: "ITEM-001" }, { orderId: "order-2" })
+    ).rejects.toThrow("reserved by order order-1");
+
+    const result = await client.releaseReservation({ sku: "ITEM-001" }, { orderId: "order-1" });
+    expect(result.changedIds).toEqual([idOf("ITEM-001")]);
+    expect(availabilityOf("ITEM-001")).toEqual({});
+
+    await expect(client.releaseReservation({ sku: "ITEM-001" })).rejects.toThrow("not reserved");
+  });
+
+  it("should mark reserved items as sold and clear the reservation", async () => {
+    await client.reserve({ sku: "ITEM-001" }, { orderId: "order-1" });
+
+    await expect(client.markSold({ sku: "ITEM-001" }, { orderId: "order-2" })).rejects.toThrow(RaukConflictError);
+    await client.markSold({ sku: "ITEM-001" }, { orderId: "order-1", date: "2024-01-02T00:00:00.000Z" });
+
+    expect(availabilityOf("ITEM-001")).toEqual({
+      sold: { orderId: "order-1", date: "2024-01-02T00:00:00.000Z" },
+    });
+    await expect(client.markSold({ sku: "ITEM-003" }, { orderId: "order-1" })).rejects.toThrow(
+      "already sold to order order-9"
+    );
+  });
+
+  it("should mark items as produced once", async () => {
+    await client.markProduced({ sku: "ITEM-002" }, { orderId: "production-1" });
+
+    expect(availabilityOf("ITEM-002")).toEqual({
+      produced: { orderId: "production-1", date: expect.any(String) },
+    });
+    await expect(client.markProduced({ sku: "ITEM-002" })).rejects.toThrow("already produced");
+  });
+
+  it("should detect items changed between the lookup and the update", async () => {
+    // Another request sells ITEM-002 right after the client looked it up
+    let sold = false;
+    const racingTransport: RaukTransport = {
+      send: async (request) => {
+        const [operation] = JSON.parse(request.body);
+        if (operation === "bulkWrite" && !sold) {
+          sold = true;
+          emulator.execute([
+            "updateMany",
+            { sku: "ITEM-002" },
+            { $set: { "availability.sold": { orderId: "order-9" } } },
+          ]);
+        }
+        return emulator.send(request);
+      },
+    };
+    client = new RaukInventoryClient({ ...config, transport: racingTransport });
+
+    const error = await client
+      .reserve({ sku: { $in: ["ITEM-001", "ITEM-002"] } }, { orderId: "order-1" })
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RaukConflictError);
+    expect(error.conflicts).toEqual([{ id: idOf("ITEM-002"), reason: "changed by another request" }]);
+    expect(error.context.changedIds).toEqual([idOf("ITEM-001")]);
+  });
+
+  it("should require an expiration for temporary reservations", async () => {
+    await expect(client.reserve({}, { orderId: "order-1", temporary: true })).rejects.toThrow(
+      "expiresAt is required for temporary reservations"
+    );
+  });
+});
@@ -0,0 +1,210 @@
+import { RaukInventoryClient, RaukInventoryEmulator, OperationBulkWrite } from "../src/index";
+import type { RaukTransport } from "../src/core/transport";
+import { RaukBulkWriteError, isBulkWriteError } from "../src/utils/errors";
+import { chunkBulkWrite } from "../src/core/bulk-write";
+import { item } from "./fixtures";
+
+describe("bulk write results", () => {
+  const config = {
+    apiKeyId: "test-key",
+    apiSecret: "test-secret",
+    apiPublicKey: "test-public",
+  };
+
+  let emulator: RaukInventoryEmulator;
+  let client: RaukInventoryClient;
+
+  beforeEach(() => {
+    emulator = new RaukInventoryEmulator({ items: [item("ITEM-001")] });
+    client = new RaukInventoryClient({ ...config, transport: emulator });
+  });
+
+  const operations: OperationBulkWrite = [
+    { updateOne: { filter: { sku: "ITEM-001" }, update: { $set: { packageQuantity: 5 } } } },
+    // @ts-expect-error incomplete document, refused by the API
+    { insertOne: { document: { sku: "ITEM-002" } } },
+    { insertOne: { document: item("ITEM-003") } },
+  ];
+
+  const skus = () => emulator.items.map((stored) => stored.sku).sort();
+
+  it("should resolve with typed counts and no write errors", async () => {
+    const result = await client.bulkWrite([
+      { insertOne: { document: item("ITEM-002") } },
+      { deleteOne: { filter: { sku: "ITEM-001" } } },
+    ]);
+
+    expect(result).toEqual({
+      acknowledged: true,
+      insertedCount: 1,
+      matchedCount: 0,
+      modifiedCount: 0,
+      deletedCount: 1,
+      insertedIds: { 0: expect.any(String) },
+      writeErrors: [],
+    });
+  });
+
+  it("should stop an ordered bulk write at the first failure and report what was written", async () => {
+    const error = await client.bulkWrite(operations).catch((caught) => caught);
+
+    expect(isBulkWriteError(error)).toBe(true);
+    expect(error.statusCode).toBe(400);
+    expect(error.result.modifiedCount).toBe(1);
+    expect(error.writeErrors).toEqual([{ index: 1, code: 400, message: expect.stringContaining("packageQuantity") }]);
+    expect(error.incompleteIndexes).toEqual([1, 2]);
+    expect(error.failedOperations).toEqual([operations[1]]);
+    expect(error.getRetryOperations()).toEqual([operations[1], operations[2]]);
+    expect(skus()).toEqual(["ITEM-001"]);
+  });
+
+  it("should keep going when unordered and only retry the failed operations", async () => {
+    const error: RaukBulkWriteError = await client.bulkWrite(operations, { ordered: false }).catch((caught) => caught);
+
+    expect(error.result.insertedCount).toBe(1);
+    expect(error.result.insertedIds).toEqual({ 2: expect.any(String) });
+    expect(error.getRetryOperations()).toEqual([operations[1]]);
+    expect(skus()).toEqual(["ITEM-001", "ITEM-003"]);
+
+    await client.bulkWrite([{ insertOne: { document: item("ITEM-002") } }]);
+    expect(skus()).toEqual(["ITEM-001", "ITEM-002", "ITEM-003"]);
+  });
+
+  it("should raise write errors reported inside a successful response", async () => {
+    const transport: RaukTransport = {
+      send: async () => ({
+        ok: true,
+        status: 200,
+        json: async () => ({ matchedCount: 1, modifiedCount: 1, writeErrors: [{ index: 1, code: 11000, errmsg: "duplicate key" }] }),
+      }),
+    };
+    const failing = new RaukInventoryClient({ ...config, transport });
+
+    const error = await failing.updateBatch([
+      [{ sku: "ITEM-001" }, { $set: { packageQuantity: 2 } }],
+      [{ sku: "ITEM-002" }, { $set: { packageQuantity: 3 } }],
+    ]).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RaukBulkWriteError);
+    expect(error.result).toEqual(expect.objectContaining({ insertedCount: 0, matchedCount: 1, modifiedCount: 1 }));
+    expect(error.writeErrors).toEqual([{ index: 1, code: 11000, message: "duplicate key" }]);
+    expect(error.getRetryOperations()).toEqual([
+      { updateOne: { filter: { sku: "ITEM-002" }, update: { $set: { packageQuantity: 3 } } } },
+    ]);
+  });
+
+  describe("chunking", () => {
+    const inserts = (count: number): OperationBulkWrite =>
+      Array.from({ length: count }, (_, index) => ({ insertOne: { document: item(`CHUNK-${index}`) } }));
+
+    // Counts the requests sent and how many were in flight at once
+    const observe = (delayMs = 0) => {
+      const stats = { requests: 0, inFlight: 0, maxInFlight: 0 };
+      const transport: RaukTransport = {
+        send: async (request) => {
+          stats.requests++;
+          stats.inFlight++;
+          stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+          await new Promise((resolve) => setTimeout(resolve, delayMs));
+          stats.inFlight--;
+          return emulator.send(request);
+        },
+      };
+      return { stats, transport };
+    };
+
+    it("should split by operation count and serialized size", () => {
+      const operations = inserts(5);
+
+      expect(chunkBulkWrite(operations, { maxOperations: 2, maxBytes: 1_000_000 }).map((chunk) => chunk.offset)).toEqual([0, 2, 4]);
+
+      const size = JSON.stringify(operations[0]).length + 1;
+      const bySize = chunkBulkWrite(operations, { maxOperations: 100, maxBytes: size * 3 });
+      expect(bySize.map((chunk) => chunk.operations.length)).toEqual([3, 2]);
+      expect(chunkBulkWrite(operations, { maxOperations: 100, maxBytes: 1 })).toHaveLength(5);
+    });
+
+    it("should merge chunk results with the original operation indexes", async () => {
+      const { stats, transport } = observe();
+      const chunked = new RaukInventoryClient({ ...config, transport, bulkWriteChunking: { maxOperations: 2 } });
+
+      const result = await chunked.bulkWrite(inserts(5));
+
+      expect(stats.requests).toBe(3);
+      expect(result.insertedCount).toBe(5);
+      expect(result.writeErrors).toEqual([]);
+      const storedIds = Object.fromEntries(emulator.items.map((stored) => [stored.sku, stored.id]));
+      expect(result.insertedIds).toEqual({
+        0: storedIds["CHUNK-0"],
+        1: storedIds["CHUNK-1"],
+        2: storedIds["CHUNK-2"],
+        3: storedIds["CHUNK-3"],
+        4: storedIds["CHUNK-4"],
+      });
+    });
+
+    it("should stop ordered bulk writes at the first failing chunk", async () => {
+      const { stats, transport } = observe();
+      const chunked = new RaukInventoryClient({ ...config, transport });
+      const operations = inserts(5);
+      // @ts-expect-error incomplete document, refused by the API
+      operations[2] = { insertOne: { document: { sku: "BROKEN" } } };
+
+      const error: RaukBulkWriteError = await chunked
+        .bulkWrite(operations, { chunking: { maxOperations: 2 } })
+        .catch((caught) => caught);
+
+      expect(stats.requests).toBe(2);
+      expect(error.result.insertedIds).toEqual({ 0: expect.any(String), 1: expect.any(String) });
+      expect(error.writeErrors.map((writeError) => writeError.index)).toEqual([2]);
+      expect(error.getRetryOperations()).toEqual(operations.slice(2));
+    });
+
+    it("should run unordered chunks with bounded concurrency", async () => {
+      const { stats, transport } = observe(5);
+      const chunked = new RaukInventoryClient({ ...config, transport });
+      const operations = inserts(12);
+      // @ts-expect-error incomplete document, refused by the API
+      operations[7] = { insertOne: { document: { sku: "BROKEN" } } };
+
+      const error: RaukBulkWriteError = await chunked
+        .bulkWrite(operations, { ordered: false, chunking: { maxOperations: 2, concurrency: 2 } })
+        .catch((caught) => caught);
+
+      expect(stats.requests).toBe(6);
+      expect(stats.maxInFlight).toBe(2);
+      expect(error.result.insertedCount).toBe(11);
+      expect(error.context).toEqual({ operation: "bulkWrite", chunks: 6 });
+      expect(error.getRetryOperations()).toEqual([operations[7]]);
+    });
+
+    it("should report every operation of a chunk whose request failed", async () => {
+      let requests = 0;
+      const transport: RaukTransport = {
+        send: async (request) => {
+          if (++requests === 2) {
+            return { ok: false, status: 503, json: async () => ({ success: false, error: { name: "ServiceUnavailable", message: "Try again" } }) };
+          }
+          return emulator.send(request);
+        },
+      };
+      const chunked = new RaukInventoryClient({ ...config, transport, bulkWriteChunking: { maxOperations: 2 } });
+      const operations = inserts(5);
+
+      const error: RaukBulkWriteError = await chunked.bulkWrite(operations, { ordered: false }).catch((caught) => caught);
+
+      expect(error.result.insertedCount).toBe(3);
+      expect(error.writeErrors).toEqual([
+        { index: 2, code: 503, message: "Try again" },
+        { index: 3, code: 503, message: "Try again" },
+      ]);
+      expect(error.getRetryOperations()).toEqual(operations.slice(2, 4));
+    });
+
+    it("should reject invalid chunking options", async () => {
+      await expect(client.bulkWrite(inserts(1), { chunking: { maxOperations: 0 } })).rejects.toThrow(
+        "maxOperations must be a positive integer"
+      );
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { RaukInventoryClient, decodeItem, encodeValue } from "../src/index";
+import type { RaukTransport, RaukTransportRequest } from "../src/core/transport";
+import type { RaukClientConfig } from "../src/types/config";
+import { item } from "./fixtures";
+
+describe("response decoding", () => {
+  const config = {
+    apiKeyId: "test-key",
+    apiSecret: "test-secret",
+    apiPublicKey: "test-public",
+  };
+
+  const apiItem = {
+    id: "68e7f70f8d21cb8e86067aff",
+    sku: "ITEM-001",
+    availability: {
+      reserved: { orderId: "order-1", temporary: true, expiration: "2024-01-25T14:30:00.000Z" },
+      sold: { orderId: "order-2", date: "2024-02-01T00:00:00.000Z" },
+    },
+    deleted: { status: true, deletionDate: "2024-03-01T00:00:00.000Z" },
+    locationHistory: [{ id: "factory-1", name: "Factory", date: "2024-01-01T08:00:00.000Z" }],
+    createdAt: "2024-01-01T08:00:00.000Z",
+    updatedAt: "2024-01-02T08:00:00.000Z",
+  };
+
+  const createClient = (response: unknown, clientConfig: Partial<RaukClientConfig> = {}) => {
+    const requests: RaukTransportRequest[] = [];
+    const transport: RaukTransport = {
+      send: async (request) => {
+        requests.push(request);
+        return { ok: true, status: 200, json: async () => response };
+      },
+    };
+    return { client: new RaukInventoryClient({ ...config, ...clientConfig, transport }), requests };
+  };
+
+  it("should convert dates and the availability map", () => {
+    const item = decodeItem(apiItem);
+
+    expect(item.createdAt).toEqual(new Date("2024-01-01T08:00:00.000Z"));
+    expect(item.updatedAt).toBeInstanceOf(Date);
+    expect(item.deleted.deletionDate).toEqual(new Date("2024-03-01T00:00:00.000Z"));
+    expect(item.locationHistory?.[0].date).toEqual(new Date("2024-01-01T08:00:00.000Z"));
+    expect(item.availability).toBeInstanceOf(Map);
+    expect(item.availability.get("sold")?.date).toEqual(new Date("2024-02-01T00:00:00.000Z"));
+    expect(item.availability.get("reserved")?.expiration).toEqual(new Date("2024-01-25T14:30:00.000Z"));
+  });
+
+  it("should leave fields missing from a projection out", () => {
+    expect(decodeItem({ id: "1", sku: "ITEM-001" })).toEqual({ id: "1", sku: "ITEM-001" });
+  });
+
+  it("should decode find and create responses", async () => {
+    const { client } = createClient([apiItem]);
+
+    const [found] = await client.find({});
+    expect(found.availability.get("sold")?.orderId).toBe("order-2");
+
+    const one = await client.findOne({ sku: "ITEM-001" });
+    expect(one?.createdAt).toBeInstanceOf(Date);
+
+    const created = await createClient(apiItem).client.create(item("ITEM-001"));
+    expect(created.availability).toBeInstanceOf(Map);
+  });
+
+  it("should leave other responses untouched", async () => {
+    const { client } = createClient([{ _id: "ITEM-001", last: "2024-01-01T08:00:00.000Z" }]);
+
+    await expect(client.aggregate([])).resolves.toEqual([{ _id: "ITEM-001", last: "2024-01-01T08:00:00.000Z" }]);
+  });
+
+  it("should return raw JSON when asked per call or by configuration", async () => {
+    const { client, requests } = createClient([apiItem]);
+
+    await expect(client.find({}, { raw: true })).resolves.toEqual([apiItem]);
+    expect(JSON.parse(requests[0].body)).toEqual(["find", {}]);
+
+    await expect(createClient([apiItem], { raw: true }).client.find({})).resolves.toEqual([apiItem]);
+  });
+
+  it("should type raw results with the wire shape", async () => {
+    const { client } = createClient([apiItem]);
+
+    const [item] = await client.find({}, { raw: true, select: { id: 1, "availability.reserved": 1 } });
+    const expiration: string | undefined = item.availability.reserved?.expiration;
+    expect(expiration).toBe("2024-01-25T14:30:00.000Z");
+
+    const one = await client.findOne({}, { raw: true });
+    const soldDate: string | undefined = one?.availability.sold?.date;
+    expect(soldDate).toBe("2024-02-01T00:00:00.000Z");
+    const deletionDate: string | undefined = one?.deleted?.deletionDate;
+    expect(deletionDate).toBe("2024-03-01T00:00:00.000Z");
+  });
+
+  it("should encode dates and maps before sending", async () => {
+    const { client, requests } = createClient({ acknowledged: true, matchedCount: 1, modifiedCount: 1 });
+    const item = decodeItem(apiItem);
+
+    await client.update({ createdAt: { $lt: new Date("2024-02-01T00:00:00.000Z") } }, {
+      availability: item.availability,
+    });
+
+    expect(JSON.parse(requests[0].body)).toEqual([
+      "findOneAndUpdate",
+      { createdAt: { $lt: "2024-02-01T00:00:00.000Z" } },
+      { availability: apiItem.availability },
+    ]);
+  });
+
+  it("should encode nested values", () => {
+    expect(
+      encodeValue({ list: [new Date("2024-01-01T00:00:00.000Z")], map: new Map([["a", { b: new Map([["c", 1]]) }]]) })
+    ).toEqual({ list: ["2024-01-01T00:00:00.000Z"], map: { a: { b: { c: 1 } } } });
+  });
+});
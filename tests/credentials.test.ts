@@ -0,0 +1,206 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  RaukInventoryClient,
+  RaukTransport,
+  callbackCredentials,
+  envCredentials,
+  fileCredentials,
+  staticCredentials,
+} from "../src/index";
+import { RaukAuthenticationError, RaukError } from "../src/utils/errors";
+
+describe("credential providers", () => {
+  const keys = (apiKeyId: string) => ({ apiKeyId, apiSecret: `${apiKeyId}-secret`, apiPublicKey: `${apiKeyId}-public` });
+
+  // Accepts requests signed with the current key id only
+  const createTransport = (accepted: { keyId: string }) => {
+    const keyIds: string[] = [];
+    const transport: RaukTransport = {
+      send: async ({ headers }) => {
+        const keyId = headers["Rai-Signature"].split(".")[0];
+        keyIds.push(keyId);
+        if (keyId !== accepted.keyId) {
+          return {
+            ok: false,
+            status: 401,
+            json: async () => ({ success: false, error: { name: "AuthenticationError", message: "Invalid API key" } }),
+          };
+        }
+        return { ok: true, status: 200, json: async () => [] };
+      },
+    };
+    return { transport, keyIds };
+  };
+
+  it("should cache callback credentials until they expire", async () => {
+    const load = jest.fn(async () => ({ ...keys("key-1"), expiresAt: Date.now() + 60_000 }));
+    const provider = callbackCredentials(load);
+
+    const [first, second] = await Promise.all([provider.getCredentials(), provider.getCredentials()]);
+    expect(first).toEqual(keys("key-1"));
+    expect(second).toEqual(keys("key-1"));
+    expect(await provider.getCredentials()).toEqual(keys("key-1"));
+    expect(load).toHaveBeenCalledTimes(1);
+
+    load.mockResolvedValueOnce({ ...keys("key-2"), expiresAt: Date.now() - 1 });
+    await provider.refresh?.();
+    expect(await provider.getCredentials()).toEqual(keys("key-2"));
+    // Already expired, loaded again
+    expect(await provider.getCredentials()).toEqual(keys("key-1"));
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not reuse a load started before a refresh", async () => {
+    let release: () => void = () => {};
+    const load = jest
+      .fn()
+      .mockImplementationOnce(() => new Promise((resolve) => (release = () => resolve(keys("key-1")))))
+      .mockResolvedValue(keys("key-2"));
+    const provider = callbackCredentials(load);
+
+    const stale = provider.getCredentials();
+    await provider.refresh?.();
+    expect(await provider.getCredentials()).toEqual(keys("key-2"));
+
+    release();
+    expect(await stale).toEqual(keys("key-1"));
+    expect(await provider.getCredentials()).toEqual(keys("key-2"));
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not cache failed loads", async () => {
+    const load = jest.fn().mockRejectedValueOnce(new Error("vault unavailable")).mockResolvedValue(keys("key-1"));
+    const { transport } = createTransport({ keyId: "key-1" });
+    const client = new RaukInventoryClient({ credentials: callbackCredentials(load), transport });
+
+    const error = await client.find({}).catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(RaukError);
+    expect((error as RaukError).message).toBe("Failed to load API credentials");
+    expect((error as RaukError).context?.originalError).toBe("vault unavailable");
+
+    await expect(client.find({})).resolves.toEqual([]);
+  });
+
+  it("should read environment variables on every call", () => {
+    const env: Record<string, string | undefined> = {
+      RAUK_API_KEY_ID: "key-1",
+      RAUK_API_SECRET: "key-1-secret",
+      RAUK_API_PUBLIC_KEY: "key-1-public",
+    };
+    const provider = envCredentials({ env });
+
+    expect(provider.getCredentials()).toEqual(keys("key-1"));
+    env.RAUK_API_KEY_ID = "key-2";
+    expect(provider.getCredentials()).toEqual({ ...keys("key-1"), apiKeyId: "key-2" });
+    delete env.RAUK_API_SECRET;
+    expect(() => provider.getCredentials()).toThrow("RAUK_API_SECRET");
+  });
+
+  it("should read credentials from a JSON file", async () => {
+    const directory = mkdtempSync(join(tmpdir(), "rauk-credentials-"));
+    const path = join(directory, "credentials.json");
+    try {
+      writeFileSync(path, JSON.stringify(keys("key-1")));
+      const provider = fileCredentials(path);
+      expect(await provider.getCredentials()).toEqual(keys("key-1"));
+
+      writeFileSync(path, JSON.stringify(keys("key-2")));
+      expect(await provider.getCredentials()).toEqual(keys("key-1"));
+      await provider.refresh?.();
+      expect(await provider.getCredentials()).toEqual(keys("key-2"));
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should retry once with refreshed credentials after an authentication error", async () => {
+    const accepted = { keyId: "key-1" };
+    const { transport, keyIds } = createTransport(accepted);
+    let current = "key-1";
+    const client = new RaukInventoryClient({ credentials: callbackCredentials(async () => keys(current)), transport });
+
+    await client.find({});
+    accepted.keyId = current = "key-2";
+    await expect(client.find({})).resolves.toEqual([]);
+    expect(keyIds).toEqual(["key-1", "key-1", "key-2"]);
+
+    // Still refused after the refresh
+    accepted.keyId = "key-3";
+    await expect(client.find({})).rejects.toThrow(RaukAuthenticationError);
+    expect(keyIds.slice(3)).toEqual(["key-2", "key-2"]);
+  });
+
+  it("should retry environment credentials rotated after the request was signed", async () => {
+    const env: Record<string, string | undefined> = {
+      RAUK_API_KEY_ID: "key-1",
+      RAUK_API_SECRET: "key-1-secret",
+      RAUK_API_PUBLIC_KEY: "key-1-public",
+    };
+    const { transport, keyIds } = createTransport({ keyId: "key-2" });
+    const rotating: RaukTransport = {
+      send: async (request) => {
+        const response = await transport.send(request);
+        Object.assign(env, { RAUK_API_KEY_ID: "key-2", RAUK_API_SECRET: "key-2-secret", RAUK_API_PUBLIC_KEY: "key-2-public" });
+        return response;
+      },
+    };
+    const client = new RaukInventoryClient({ credentials: envCredentials({ env }), transport: rotating });
+
+    await expect(client.find({})).resolves.toEqual([]);
+    expect(keyIds).toEqual(["key-1", "key-2"]);
+  });
+
+  it("should not count the refreshed retry against the retry policy", async () => {
+    const responses = [
+      { ok: false, status: 401, json: async () => ({ success: false, error: { name: "AuthenticationError", message: "Invalid API key" } }) },
+      { ok: false, status: 503, json: async () => ({ success: false, error: { name: "ServiceUnavailable", message: "Try again" } }) },
+      { ok: true, status: 200, json: async () => [] },
+    ];
+    const send = jest.fn(async () => responses.shift()!);
+    const client = new RaukInventoryClient({
+      credentials: callbackCredentials(async () => keys("key-1")),
+      transport: { send },
+      retry: { maxAttempts: 2, baseDelayMs: 1 },
+    });
+
+    await expect(client.find({})).resolves.toEqual([]);
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry providers that cannot refresh", async () => {
+    const { transport, keyIds } = createTransport({ keyId: "key-2" });
+    const client = new RaukInventoryClient({ ...keys("key-1"), transport });
+
+    await expect(client.find({})).rejects.toThrow(RaukAuthenticationError);
+    expect(keyIds).toEqual(["key-1"]);
+
+    client.setConfig({ credentials: staticCredentials(keys("key-2")), transport });
+    await expect(client.find({})).resolves.toEqual([]);
+  });
+
+  it("should keep the credentials and base URL when setConfig leaves them out", async () => {
+    const urls: string[] = [];
+    const { transport, keyIds } = createTransport({ keyId: "key-1" });
+    const recording: RaukTransport = {
+      send: (request) => {
+        urls.push(request.url);
+        return transport.send(request);
+      },
+    };
+    const client = new RaukInventoryClient({ ...keys("key-1"), apiBaseUrl: "https://inventory.rauk.local", transport: recording });
+
+    client.setConfig({ timeoutMs: 5000 });
+    await expect(client.find({})).resolves.toEqual([]);
+    expect(keyIds).toEqual(["key-1"]);
+    expect(urls).toEqual(["https://inventory.rauk.local/query"]);
+
+    expect(() => client.setConfig({ apiKeyId: "key-2" })).toThrow("unless a credentials provider is given");
+  });
+
+  it("should require credentials", () => {
+    expect(() => new RaukInventoryClient({ apiKeyId: "key-1" })).toThrow("unless a credentials provider is given");
+    expect(() => staticCredentials({ ...keys("key-1"), apiSecret: "" })).toThrow("apiKeyId, apiSecret and apiPublicKey are required");
+  });
+});
@@ -0,0 +1,161 @@
+import { RaukInventoryClient, RaukInventoryEmulator } from "../src/index";
+import { RaukApiError } from "../src/utils/errors";
+import { item } from "./fixtures";
+
+describe("RaukInventoryEmulator", () => {
+  const config = {
+    apiKeyId: "test-key",
+    apiSecret: "test-secret",
+    apiPublicKey: "test-public",
+  };
+
+  let emulator: RaukInventoryEmulator;
+  let client: RaukInventoryClient;
+
+  beforeEach(() => {
+    emulator = new RaukInventoryEmulator({
+      now: () => new Date("2024-01-01T00:00:00.000Z"),
+    });
+    client = new RaukInventoryClient({ ...config, transport: emulator });
+  });
+
+  it("should create and find items without network access", async () => {
+    const fetchMock = jest.spyOn(global, "fetch");
+    const created = await client.create(item("ITEM-001"));
+
+    expect(created.id).toEqual(expect.any(String));
+    expect(created.deleted).toEqual({ status: false });
+
+    const items = await client.find({ sku: "ITEM-001" });
+    expect(items).toHaveLength(1);
+    expect(items[0].id).toBe(created.id);
+    expect(fetchMock).not.toHaveBeenCalled();
+    fetchMock.mockRestore();
+  });
+
+  it("should apply find options", async () => {
+    await client.create(item("ITEM-001", { packageQuantity: 5 }));
+    await client.create(item("ITEM-002", { packageQuantity: 15 }));
+    await client.create(item("ITEM-003", { packageQuantity: 25 }));
+
+    const items = await client.find(
+      { packageQuantity: { $gte: 10 } },
+      { sort: { packageQuantity: -1 }, limit: 1, select: { sku: 1 } }
+    );
+
+    expect(items).toEqual([{ id: expect.any(String), sku: "ITEM-003" }]);
+  });
+
+  it("should update one or many items", async () => {
+    await client.create(item("ITEM-001"));
+    await client.create(item("ITEM-002"));
+
+    const single = await client.update({ "color.id": "red" }, { "color.name": "Crimson" });
+    expect(single).toEqual({ acknowledged: true, matchedCount: 1, modifiedCount: 1 });
+
+    const many = await client.updateMany({ "color.id": "red" }, { packageQuantity: 20 });
+    expect(many).toEqual({ acknowledged: true, matchedCount: 2, modifiedCount: 2 });
+
+    const items = await client.find({ packageQuantity: 20 });
+    expect(items.map((entry) => entry.color.name).sort()).toEqual(["Crimson", "Red"]);
+  });
+
+  it("should soft delete items and hide them unless includeDeleted is set", async () => {
+    await client.create(item("ITEM-001"));
+    await client.create(item("ITEM-002"));
+
+    await expect(client.deleteOne({ sku: "ITEM-001" })).resolves.toEqual({ deletedCount: 1 });
+
+    expect(await client.find({})).toHaveLength(1);
+    const all = await client.find({}, { includeDeleted: true });
+    expect(all).toHaveLength(2);
+    expect(all.find((entry) => entry.sku === "ITEM-001")?.deleted).toEqual({
+      status: true,
+      deletionDate: new Date("2024-01-01T00:00:00.000Z"),
+    });
+
+    await expect(client.deleteMany({})).resolves.toEqual({ deletedCount: 1 });
+    expect(await client.find({})).toHaveLength(0);
+  });
+
+  it("should mark items as deleted through delete", async () => {
+    await client.create(item("ITEM-001"));
+
+    await client.delete({ sku: "ITEM-001" });
+
+    expect(await client.find({ sku: "ITEM-001" })).toHaveLength(0);
+    const [deleted] = await client.find({ sku: "ITEM-001" }, { includeDeleted: true });
+    expect(deleted.deleted).toEqual({ status: true, deletionDate: new Date("2024-01-01T00:00:00.000Z") });
+  });
+
+  it("should run bulk writes", async () => {
+    const existing = await client.create(item("ITEM-001"));
+
+    const result = await client.bulkWrite([
+      { insertOne: { document: item("ITEM-002") } },
+      { updateOne: { filter: { id: existing.id }, update: { packageQuantity: 30 } } },
+      { deleteOne: { filter: { sku: "ITEM-002" } } },
+    ]);
+
+    expect(result).toEqual(
+      expect.objectContaining({
+        insertedCount: 1,
+        matchedCount: 1,
+        modifiedCount: 1,
+        deletedCount: 1,
+        insertedIds: { 0: expect.any(String) },
+      })
+    );
+    expect(await client.findOne({ id: existing.id })).toEqual(
+      expect.objectContaining({ packageQuantity: 30 })
+    );
+  });
+
+  it("should aggregate with the supported stages", async () => {
+    await client.create(item("ITEM-001", { packageQuantity: 5 }));
+    await client.create(item("ITEM-001", { packageQuantity: 7 }));
+    await client.create(item("ITEM-002", { packageQuantity: 3 }));
+
+    const result = await client.aggregate([
+      { $match: { "entities.factoryId": "factory-1" } },
+      { $group: { _id: "$sku", count: { $sum: 1 }, total: { $sum: "$packageQuantity" } } },
+      { $sort: { total: -1 } },
+    ]);
+
+    expect(result).toEqual([
+      { _id: "ITEM-001", count: 2, total: 12 },
+      { _id: "ITEM-002", count: 1, total: 3 },
+    ]);
+
+    const counted = await client.aggregate([
+      { $match: { packageQuantity: { $gt: 4 } } },
+      { $count: "items" },
+    ]);
+    expect(counted).toEqual([{ items: 2 }]);
+  });
+
+  it("should answer invalid requests with API errors", async () => {
+    await client.create(item("ITEM-001"));
+
+    await expect(
+      // @ts-expect-error $rename is not supported
+      client.update({ sku: "ITEM-001" }, { $rename: { sku: "code" } })
+    ).rejects.toThrow(RaukApiError);
+    await expect(
+      client.update({ sku: "ITEM-001" }, { $set: { id: "other" } })
+    ).rejects.toThrow("property id should not exist");
+  });
+
+  it("should seed items and expose a snapshot", () => {
+    emulator.reset([{ sku: "SEEDED", packageQuantity: 1 }]);
+
+    expect(emulator.items).toEqual([
+      expect.objectContaining({
+        id: expect.any(String),
+        sku: "SEEDED",
+        deleted: { status: false },
+        createdAt: "2024-01-01T00:00:00.000Z",
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,13 @@
+import type { OperationCreateItem } from "../src/types/operations";
+
+// A valid item to create, the overrides replace whole top-level fields
+export const item = (sku: string, overrides: Partial<OperationCreateItem> = {}): OperationCreateItem => ({
+  entities: { factoryId: "factory-1", brandId: "brand-1" },
+  sku,
+  packageQuantity: 10,
+  color: { id: "red", name: "Red" },
+  currentLocation: { id: "warehouse-1" },
+  brandDetails: { id: "brand-1", type: "Brand", name: "Acme" },
+  factoryDetails: { id: "factory-1", type: "Factory", name: "Main Factory" },
+  ...overrides,
+});
@@ -0,0 +1,117 @@
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  RaukInventoryClient,
+  RaukInventoryEmulator,
+  RaukTransport,
+  RaukTransportRequest,
+} from "../src/index";
+import { RaukApiError, RaukTimeoutError } from "../src/utils/errors";
+import { item } from "./fixtures";
+
+describe("idempotency keys", () => {
+  const config = { apiKeyId: "test-key", apiSecret: "test-secret", apiPublicKey: "test-public" };
+
+  let emulator: RaukInventoryEmulator;
+  let sent: RaukTransportRequest[];
+  let recorder: RaukTransport;
+
+  beforeEach(() => {
+    emulator = new RaukInventoryEmulator();
+    sent = [];
+    recorder = {
+      send: (request) => {
+        sent.push(request);
+        return emulator.send(request);
+      },
+    };
+  });
+
+  const keyOf = (request: RaukTransportRequest) => request.headers[IDEMPOTENCY_KEY_HEADER];
+
+  it("should send the given key with writes only", async () => {
+    const client = new RaukInventoryClient({ ...config, transport: recorder });
+
+    await client.create(item("ITEM-001"), { idempotencyKey: "create-1" });
+    await client.update({ sku: "ITEM-001" }, { $set: { packageQuantity: 5 } }, { idempotencyKey: "update-1" });
+    await client.updateMany({ sku: "ITEM-001" }, { $set: { packageQuantity: 6 } }, { idempotencyKey: "update-2" });
+    await client.find({ sku: "ITEM-001" }, { idempotencyKey: "find-1" });
+    await client.create(item("ITEM-002"));
+
+    expect(sent.map(keyOf)).toEqual(["create-1", "update-1", "update-2", undefined, undefined]);
+    // Never part of the signed request array
+    expect(JSON.parse(sent[0].body)).toHaveLength(2);
+  });
+
+  it("should generate one key per call when retries are enabled, shared by its attempts", async () => {
+    const client = new RaukInventoryClient({
+      ...config,
+      retry: { maxAttempts: 2, baseDelayMs: 1, retryNonIdempotent: true },
+      transport: {
+        send: (request) => {
+          sent.push(request);
+          // The first attempt is processed but its answer is lost
+          return emulator.send(request).then((response) => {
+            if (sent.length === 1) {
+              throw new RaukTimeoutError("Request timed out");
+            }
+            return response;
+          });
+        },
+      },
+    });
+
+    const created = await client.create(item("ITEM-001"));
+    await client.create(item("ITEM-002"));
+
+    expect(keyOf(sent[0])).toMatch(/^[0-9a-f-]{36}$/);
+    expect(keyOf(sent[1])).toBe(keyOf(sent[0]));
+    expect(keyOf(sent[2])).not.toBe(keyOf(sent[0]));
+    expect(emulator.items.map((stored) => stored.sku)).toEqual(["ITEM-001", "ITEM-002"]);
+    expect(created).toEqual(expect.objectContaining({ id: emulator.items[0].id }));
+  });
+
+  it("should answer repeated keys with the original result", async () => {
+    const client = new RaukInventoryClient({ ...config, transport: recorder });
+
+    const first = await client.create(item("ITEM-001"), { idempotencyKey: "create-1" });
+    const repeated = await client.create(item("ITEM-001"), { idempotencyKey: "create-1" });
+    expect(repeated).toEqual(first);
+    expect(emulator.items).toHaveLength(1);
+
+    const response = await emulator.send(sent[1]);
+    expect(response.headers?.get("idempotent-replayed")).toBe("true");
+
+    const updated = await client.updateMany({}, { $set: { packageQuantity: 12 } }, { idempotencyKey: "update-1" });
+    expect(await client.updateMany({}, { $set: { packageQuantity: 12 } }, { idempotencyKey: "update-1" })).toEqual(updated);
+
+    // Forgotten once the store is reset
+    emulator.reset(emulator.items.map((stored) => ({ ...stored, packageQuantity: 10 })));
+    await client.updateMany({}, { $set: { packageQuantity: 12 } }, { idempotencyKey: "update-1" });
+    expect(emulator.items[0].packageQuantity).toBe(12);
+  });
+
+  it("should refuse a key reused for another request", async () => {
+    const client = new RaukInventoryClient({ ...config, transport: emulator });
+
+    await client.create(item("ITEM-001"), { idempotencyKey: "create-1" });
+    const error = await client.create(item("ITEM-002"), { idempotencyKey: "create-1" }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RaukApiError);
+    expect((error as RaukApiError).statusCode).toBe(422);
+    expect(emulator.items).toHaveLength(1);
+  });
+
+  it("should derive a key per chunk of a bulk write", async () => {
+    const client = new RaukInventoryClient({ ...config, transport: recorder });
+    const operations = ["ITEM-001", "ITEM-002", "ITEM-003"].map((sku) => ({
+      insertOne: { document: item(sku) },
+    }));
+
+    await client.bulkWrite(operations, { idempotencyKey: "bulk-1", chunking: { maxOperations: 2 } });
+    await client.bulkWrite(operations, { idempotencyKey: "bulk-1", chunking: { maxOperations: 2 } });
+    await client.bulkWrite(operations.slice(0, 1), { idempotencyKey: "bulk-2" });
+
+    expect(sent.map(keyOf)).toEqual(["bulk-1:0", "bulk-1:2", "bulk-1:0", "bulk-1:2", "bulk-2"]);
+    expect(emulator.items).toHaveLength(4);
+  });
+});
@@ -1,16 +1,32 @@
 import { RaukInventory, RaukInventoryClient } from "../src/index";
+import type { RaukTransport, RaukTransportRequest } from "../src/core/transport";
+import type { RaukMiddleware } from "../src/core/middleware";
 import type {
   OperationCreateItem,
   OperationQuery,
   OperationUpdateItem,
 } from "../src/types/operations";
 import {
+  RaukError,
   RaukValidationError,
   RaukAuthenticationError,
   RaukNetworkError,
+  RaukServerError,
+  RaukNotFoundError,
+  RaukConflictError,
+  RaukRateLimitError,
+  RaukPayloadTooLargeError,
+  RaukApiError,
+  RaukTimeoutError,
+  RaukAbortError,
   isValidationError,
   isAuthenticationError,
   isNetworkError,
+  isServerError,
+  isNotFoundError,
+  isConflictError,
+  isRateLimitError,
+  isPayloadTooLargeError,
 } from "../src/utils/errors";
 
 describe("RaukInventory", () => {
@@ -88,10 +104,10 @@ describe("RaukInventory", () => {
     ];
     jest.spyOn(global, "fetch").mockResolvedValue({
       ok: true,
-      json: async () => ({ ok: true }),
+      json: async () => ({ acknowledged: true, matchedCount: 1, modifiedCount: 1 }),
     } as Response);
     const result = await RaukInventory.updateBatch(updates);
-    expect(result).toEqual({ ok: true });
+    expect(result).toEqual(expect.objectContaining({ matchedCount: 1, modifiedCount: 1, writeErrors: [] }));
   });
 
   it("should aggregate", async () => {
@@ -182,7 +198,7 @@ describe("RaukInventory", () => {
     }
   });
 
-  it("should throw RaukNetworkError for server errors", async () => {
+  it("should throw RaukServerError for server errors", async () => {
     new RaukInventory(config);
 
     // Mock fetch to return server error
@@ -199,20 +215,78 @@ describe("RaukInventory", () => {
     } as Response);
 
     await expect(RaukInventory.find({ sku: "TEST" })).rejects.toThrow(
-      RaukNetworkError
+      RaukServerError
     );
 
     try {
       await RaukInventory.find({ sku: "TEST" });
     } catch (error) {
-      expect(isNetworkError(error)).toBe(true);
-      if (isNetworkError(error)) {
+      expect(isServerError(error)).toBe(true);
+      expect(isNetworkError(error)).toBe(false);
+      if (isServerError(error)) {
         expect(error.message).toContain("Internal server error");
         expect(error.statusCode).toBe(500);
+        expect(error.retryable).toBe(true);
       }
     }
   });
 
+  it("should map status codes to dedicated error classes", async () => {
+    const client = new RaukInventoryClient(config);
+    const respond = (status: number, error: Record<string, unknown>, headers?: Record<string, string>) =>
+      jest.spyOn(global, "fetch").mockResolvedValue({
+        ok: false,
+        status,
+        headers: new Headers(headers),
+        json: async () => ({ success: false, error }),
+      } as Response);
+    const failure = () => client.find({ sku: "TEST" }).catch((error: unknown) => error);
+
+    respond(404, { message: "Item not found" });
+    const notFound = await failure();
+    expect(notFound).toBeInstanceOf(RaukNotFoundError);
+    expect(isNotFoundError(notFound) && notFound.retryable).toBe(false);
+
+    respond(409, { message: "Item already sold", conflicts: [{ id: "item-1", reason: "sold" }] });
+    const conflict = await failure();
+    expect(isConflictError(conflict)).toBe(true);
+    if (isConflictError(conflict)) {
+      expect(conflict.conflicts).toEqual([{ id: "item-1", reason: "sold" }]);
+      expect(conflict.statusCode).toBe(409);
+    }
+
+    respond(413, { message: "Body too large" });
+    const tooLarge = await failure();
+    expect(tooLarge).toBeInstanceOf(RaukPayloadTooLargeError);
+    expect(isPayloadTooLargeError(tooLarge) && tooLarge.retryable).toBe(false);
+
+    respond(429, { message: "Slow down" }, { "Retry-After": "2" });
+    const rateLimited = await failure();
+    expect(isRateLimitError(rateLimited)).toBe(true);
+    if (isRateLimitError(rateLimited)) {
+      expect(rateLimited.retryAfterMs).toBe(2000);
+      expect(rateLimited.retryable).toBe(true);
+      expect(rateLimited.toJSON()).toEqual(expect.objectContaining({ statusCode: 429, retryable: true }));
+    }
+
+    respond(429, { message: "Slow down" });
+    const withoutDelay = await failure();
+    expect(isRateLimitError(withoutDelay) && withoutDelay.retryAfterMs).toBeUndefined();
+
+    respond(501, { message: "Not implemented" });
+    const notImplemented = await failure();
+    expect(notImplemented).toBeInstanceOf(RaukServerError);
+    expect((notImplemented as RaukServerError).retryable).toBe(false);
+
+    respond(408, { message: "Request timeout" });
+    const requestTimeout = await failure();
+    expect(requestTimeout).toBeInstanceOf(RaukApiError);
+    expect((requestTimeout as RaukApiError).retryable).toBe(true);
+
+    respond(418, { message: "Teapot" });
+    expect(((await failure()) as RaukApiError).retryable).toBe(false);
+  });
+
   it("should handle network failures gracefully", async () => {
     new RaukInventory(config);
 
@@ -332,3 +406,493 @@ describe("RaukInventoryClient", () => {
     expect(result).toEqual({ sku: "ITEM-002", packageQuantity: 5 });
   });
 });
+
+describe("RaukInventoryClient retry policy", () => {
+  const config = {
+    apiKeyId: "test-key",
+    apiSecret: "test-secret",
+    apiPublicKey: "test-public",
+    apiBaseUrl: "https://inventory.rauk.local",
+  };
+
+  const serverError = {
+    ok: false,
+    status: 503,
+    json: async () => ({
+      success: false,
+      error: { message: "Service unavailable", name: "ServerError" },
+    }),
+  } as Response;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should not retry when no policy is configured", async () => {
+    const fetchMock = jest.spyOn(global, "fetch").mockResolvedValue(serverError);
+    const client = new RaukInventoryClient(config);
+
+    await expect(client.find({ sku: "TEST" })).rejects.toThrow(RaukServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry retryable failures and re-sign every attempt", async () => {
+    const fetchMock = jest
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(serverError)
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValue({
+        ok: true,
+        json: async () => [{ sku: "ITEM-001" }],
+      } as Response);
+    const nowSpy = jest.spyOn(Date, "now");
+    nowSpy.mockReturnValueOnce(1000).mockReturnValueOnce(2000).mockReturnValueOnce(3000);
+
+    const client = new RaukInventoryClient({
+      ...config,
+      retry: { maxAttempts: 3, baseDelayMs: 1, jitter: false },
+    });
+
+    const items = await client.find({ sku: "ITEM-001" });
+    expect(items).toEqual([{ sku: "ITEM-001" }]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    const signatures = fetchMock.mock.calls.map(
+      ([, init]) => (init?.headers as Record<string, string>)["Rai-Signature"]
+    );
+    expect(new Set(signatures).size).toBe(3);
+  });
+
+  it("should give up after maxAttempts", async () => {
+    const fetchMock = jest.spyOn(global, "fetch").mockResolvedValue(serverError);
+    const client = new RaukInventoryClient({
+      ...config,
+      retry: { maxAttempts: 2, baseDelayMs: 1 },
+    });
+
+    await expect(client.find({ sku: "TEST" })).rejects.toThrow(RaukServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry validation errors", async () => {
+    const fetchMock = jest.spyOn(global, "fetch").mockResolvedValue({
+      ok: false,
+      status: 400,
+      json: async () => ({
+        success: false,
+        error: { errors: [], name: "ValidationException" },
+      }),
+    } as Response);
+    const client = new RaukInventoryClient({ ...config, retry: true });
+
+    await expect(client.find({ sku: "TEST" })).rejects.toThrow(RaukValidationError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry the errors flagged retryable and the ones added by the policy", async () => {
+    const notImplemented = { ...serverError, status: 501 } as Response;
+    const fetchMock = jest.spyOn(global, "fetch").mockResolvedValue(notImplemented);
+    const client = new RaukInventoryClient({ ...config, retry: { maxAttempts: 2, baseDelayMs: 1 } });
+
+    const error = await client.find({ sku: "TEST" }).catch((caught) => caught);
+    expect(error.retryable).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    client.setConfig({ ...config, retry: { maxAttempts: 2, baseDelayMs: 1, retryableStatusCodes: [501] } });
+    await expect(client.find({ sku: "TEST" })).rejects.toThrow(RaukServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("should only retry insertOne when non-idempotent retries are enabled", async () => {
+    const fetchMock = jest.spyOn(global, "fetch").mockResolvedValue(serverError);
+    const item: OperationCreateItem = {
+      entities: { factoryId: "789", brandId: "101" },
+      sku: "ITEM-002",
+      packageQuantity: 5,
+      color: { name: "Blue", id: "101" },
+      currentLocation: { id: "warehouse-2" },
+      brandDetails: { id: "101", type: "Brand" },
+      factoryDetails: { id: "789", type: "Factory" },
+    };
+
+    const client = new RaukInventoryClient({
+      ...config,
+      retry: { maxAttempts: 3, baseDelayMs: 1 },
+    });
+    await expect(client.create(item)).rejects.toThrow(RaukServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockClear();
+    client.setConfig({
+      ...config,
+      retry: { maxAttempts: 3, baseDelayMs: 1, retryNonIdempotent: true },
+    });
+    await expect(client.create(item)).rejects.toThrow(RaukServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("should only retry updates sent with an idempotency key", async () => {
+    const fetchMock = jest.spyOn(global, "fetch").mockResolvedValue(serverError);
+    const client = new RaukInventoryClient({
+      ...config,
+      retry: { maxAttempts: 3, baseDelayMs: 1 },
+    });
+
+    await expect(client.update({ sku: "TEST" }, { $set: { packageQuantity: 1 } })).rejects.toThrow(RaukServerError);
+    await expect(client.updateMany({ sku: "TEST" }, { $set: { packageQuantity: 1 } })).rejects.toThrow(RaukServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    fetchMock.mockClear();
+    await expect(
+      client.updateMany({ sku: "TEST" }, { $set: { packageQuantity: 1 } }, { idempotencyKey: "update-1" })
+    ).rejects.toThrow(RaukServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("should give up when Retry-After exceeds maxDelayMs", async () => {
+    const fetchMock = jest.spyOn(global, "fetch").mockResolvedValue({
+      ok: false,
+      status: 429,
+      headers: new Headers({ "Retry-After": "10" }),
+      json: async () => ({
+        success: false,
+        error: { message: "Too many requests", name: "RateLimitError" },
+      }),
+    } as Response);
+    const client = new RaukInventoryClient({
+      ...config,
+      retry: { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 5000 },
+    });
+
+    const error = await client.find({ sku: "TEST" }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(RaukRateLimitError);
+    expect((error as RaukRateLimitError).retryAfterMs).toBe(10000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should honour Retry-After on retryable status codes", async () => {
+    const fetchMock = jest
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: new Headers({ "Retry-After": "0" }),
+        json: async () => ({
+          success: false,
+          error: { message: "Too many requests", name: "RateLimitError" },
+        }),
+      } as Response)
+      .mockResolvedValue({ ok: true, json: async () => [] } as Response);
+    const client = new RaukInventoryClient({
+      ...config,
+      retry: { baseDelayMs: 60000, maxDelayMs: 60000 },
+    });
+
+    await expect(client.find({ sku: "TEST" })).resolves.toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("RaukInventoryClient timeouts and cancellation", () => {
+  const config = {
+    apiKeyId: "test-key",
+    apiSecret: "test-secret",
+    apiPublicKey: "test-public",
+    apiBaseUrl: "https://inventory.rauk.local",
+  };
+
+  // Never resolves on its own, only rejects once the request signal aborts
+  const hangingFetch = (_url: any, init?: RequestInit) =>
+    new Promise<Response>((_resolve, reject) => {
+      init?.signal?.addEventListener("abort", () => {
+        const error = new Error("This operation was aborted");
+        error.name = "AbortError";
+        reject(error);
+      });
+    });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should reject with RaukTimeoutError after the client timeout", async () => {
+    jest.spyOn(global, "fetch").mockImplementation(hangingFetch);
+    const client = new RaukInventoryClient({ ...config, timeoutMs: 10 });
+
+    await expect(client.find({ sku: "TEST" })).rejects.toThrow(RaukTimeoutError);
+  });
+
+  it("should let a per-call timeout override the client default", async () => {
+    jest.spyOn(global, "fetch").mockImplementation(hangingFetch);
+    const client = new RaukInventoryClient({ ...config, timeoutMs: 60000 });
+
+    await expect(
+      client.find({ sku: "TEST" }, { timeoutMs: 10 })
+    ).rejects.toThrow(RaukTimeoutError);
+  });
+
+  it("should reject with RaukAbortError when the signal aborts", async () => {
+    jest.spyOn(global, "fetch").mockImplementation(hangingFetch);
+    const client = new RaukInventoryClient(config);
+    const controller = new AbortController();
+
+    const pending = client.find({ sku: "TEST" }, { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow(RaukAbortError);
+  });
+
+  it("should not send a request when the signal is already aborted", async () => {
+    const fetchMock = jest.spyOn(global, "fetch");
+    const client = new RaukInventoryClient(config);
+
+    await expect(
+      client.find({ sku: "TEST" }, { signal: AbortSignal.abort() })
+    ).rejects.toThrow(RaukAbortError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should keep client options out of the request body", async () => {
+    const fetchMock = jest.spyOn(global, "fetch").mockResolvedValue({
+      ok: true,
+      json: async () => [],
+    } as Response);
+    const client = new RaukInventoryClient(config);
+    const controller = new AbortController();
+
+    await client.find({ sku: "TEST" }, { signal: controller.signal, timeoutMs: 1000 });
+    await client.find({ sku: "TEST" }, { limit: 5, timeoutMs: 1000 });
+
+    expect(fetchMock.mock.calls[0][1]?.body).toBe(JSON.stringify(["find", { sku: "TEST" }]));
+    expect(fetchMock.mock.calls[1][1]?.body).toBe(
+      JSON.stringify(["find", { sku: "TEST" }, { limit: 5 }])
+    );
+  });
+});
+
+describe("RaukInventoryClient transport", () => {
+  const config = {
+    apiKeyId: "test-key",
+    apiSecret: "test-secret",
+    apiPublicKey: "test-public",
+    apiBaseUrl: "https://inventory.rauk.local",
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should send signed requests through a custom transport", async () => {
+    const requests: RaukTransportRequest[] = [];
+    const transport: RaukTransport = {
+      send: async (request) => {
+        requests.push(request);
+        return { ok: true, status: 200, json: async () => [{ sku: "ITEM-001" }] };
+      },
+    };
+    const fetchMock = jest.spyOn(global, "fetch");
+    const client = new RaukInventoryClient({ ...config, transport });
+
+    const items = await client.find({ sku: "ITEM-001" });
+
+    expect(items).toEqual([{ sku: "ITEM-001" }]);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe(`${config.apiBaseUrl}/query`);
+    expect(requests[0].body).toBe(JSON.stringify(["find", { sku: "ITEM-001" }]));
+    expect(requests[0].headers["Rai-Signature"]).toMatch(/^test-key\.test-public\./);
+  });
+
+  it("should use a custom fetch implementation", async () => {
+    const customFetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ sku: "ITEM-002" }),
+    } as Response);
+    const client = new RaukInventoryClient({ ...config, fetch: customFetch });
+
+    await client.aggregate([{ $match: { sku: "ITEM-002" } }]);
+
+    expect(customFetch).toHaveBeenCalledWith(
+      `${config.apiBaseUrl}/query`,
+      expect.objectContaining({ method: "POST" })
+    );
+  });
+
+  it("should parse errors returned by a custom transport", async () => {
+    const transport: RaukTransport = {
+      send: async () => ({
+        ok: false,
+        status: 401,
+        json: async () => ({
+          success: false,
+          error: { message: "Invalid API credentials", name: "AuthenticationError" },
+        }),
+      }),
+    };
+    const client = new RaukInventoryClient({ ...config, transport });
+
+    await expect(client.find({ sku: "TEST" })).rejects.toThrow(RaukAuthenticationError);
+  });
+});
+
+describe("RaukInventoryClient middleware", () => {
+  const config = {
+    apiKeyId: "test-key",
+    apiSecret: "test-secret",
+    apiPublicKey: "test-public",
+    apiBaseUrl: "https://inventory.rauk.local",
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should run hooks in order with request details", async () => {
+    const fetchMock = jest.spyOn(global, "fetch").mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => [{ sku: "ITEM-001" }],
+    } as Response);
+    const calls: string[] = [];
+    const outer: RaukMiddleware = {
+      onRequest: (context) => {
+        calls.push(`outer:request:${context.operation}`);
+        context.headers["X-Trace-Id"] = "trace-1";
+      },
+      onResponse: (context) => {
+        calls.push(`outer:response:${context.status}`);
+        expect(context.latencyMs).toBeGreaterThanOrEqual(0);
+        expect(context.headers["Rai-Signature"]).toBeDefined();
+      },
+    };
+    const inner: RaukMiddleware = {
+      onRequest: () => {
+        calls.push("inner:request");
+      },
+      onResponse: () => {
+        calls.push("inner:response");
+      },
+    };
+    const client = new RaukInventoryClient({ ...config, middleware: [outer] });
+    client.useMiddleware(inner);
+
+    await client.find({ sku: "ITEM-001" });
+
+    expect(calls).toEqual([
+      "outer:request:find",
+      "inner:request",
+      "inner:response",
+      "outer:response:200",
+    ]);
+    expect(fetchMock.mock.calls[0][1]?.headers).toEqual(
+      expect.objectContaining({ "X-Trace-Id": "trace-1" })
+    );
+  });
+
+  it("should let onResponse replace the returned data", async () => {
+    jest.spyOn(global, "fetch").mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => [{ sku: "ITEM-001" }],
+    } as Response);
+    const client = new RaukInventoryClient(config);
+    client.useMiddleware({
+      onResponse: (context) => {
+        context.data = context.data.map((item: any) => ({ ...item, tagged: true }));
+      },
+    });
+
+    await expect(client.find({ sku: "ITEM-001" })).resolves.toEqual([
+      { sku: "ITEM-001", tagged: true },
+    ]);
+  });
+
+  it("should call onError with the parsed error for every attempt", async () => {
+    jest.spyOn(global, "fetch").mockResolvedValue({
+      ok: false,
+      status: 503,
+      json: async () => ({
+        success: false,
+        error: { message: "Service unavailable", name: "ServerError" },
+      }),
+    } as Response);
+    const onError = jest.fn();
+    const client = new RaukInventoryClient({
+      ...config,
+      retry: { maxAttempts: 2, baseDelayMs: 1 },
+      middleware: [{ onError }],
+    });
+
+    await expect(client.find({ sku: "TEST" })).rejects.toThrow(RaukServerError);
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(onError.mock.calls[1][0]).toEqual(
+      expect.objectContaining({
+        operation: "find",
+        attempt: 2,
+        status: 503,
+        error: expect.any(RaukServerError),
+      })
+    );
+  });
+
+  it("should pass errors thrown by onRequest to onError as Rauk errors", async () => {
+    const fetchMock = jest.spyOn(global, "fetch");
+    const onError = jest.fn();
+    const client = new RaukInventoryClient({
+      ...config,
+      middleware: [
+        { onError },
+        {
+          onRequest: () => {
+            throw new Error("tracer unavailable");
+          },
+        },
+      ],
+    });
+
+    const error = await client.find({ sku: "TEST" }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RaukError);
+    expect(error.message).toBe("onRequest middleware failed");
+    expect(error.context).toEqual({ operation: "find", originalError: "tracer unavailable" });
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ operation: "find", error }));
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should stop running a removed middleware", async () => {
+    jest.spyOn(global, "fetch").mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => [],
+    } as Response);
+    const onRequest = jest.fn();
+    const client = new RaukInventoryClient(config);
+    const remove = client.useMiddleware({ onRequest });
+
+    await client.find({ sku: "TEST" });
+    remove();
+    await client.find({ sku: "TEST" });
+
+    expect(onRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("should replace the middleware through setConfig", async () => {
+    jest.spyOn(global, "fetch").mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => [],
+    } as Response);
+    const added = jest.fn();
+    const configured = jest.fn();
+    const client = new RaukInventoryClient(config);
+    client.useMiddleware({ onRequest: added });
+
+    client.setConfig({ middleware: [{ onRequest: configured }] });
+    await client.find({ sku: "TEST" });
+    client.setConfig({ timeoutMs: 5000 });
+    await client.find({ sku: "TEST" });
+
+    expect(added).not.toHaveBeenCalled();
+    expect(configured).toHaveBeenCalledTimes(2);
+  });
+});
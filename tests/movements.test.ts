@@ -0,0 +1,76 @@
+import { RaukInventoryClient, RaukInventoryEmulator } from "../src/index";
+import { RaukError } from "../src/utils/errors";
+
+describe("stock movements", () => {
+  const config = {
+    apiKeyId: "test-key",
+    apiSecret: "test-secret",
+    apiPublicKey: "test-public",
+  };
+
+  let emulator: RaukInventoryEmulator;
+  let client: RaukInventoryClient;
+
+  beforeEach(() => {
+    emulator = new RaukInventoryEmulator({
+      items: [
+        {
+          sku: "ITEM-001",
+          packageQuantity: 1,
+          currentLocation: { id: "warehouse-1", name: "Warehouse" },
+          locationHistory: [{ id: "factory-1", name: "Factory", date: "2024-01-01T00:00:00.000Z" }],
+        },
+        { sku: "ITEM-002", packageQuantity: 1, currentLocation: { id: "warehouse-1", name: "Warehouse" } },
+      ],
+    });
+    client = new RaukInventoryClient({ ...config, validate: true, transport: emulator });
+  });
+
+  const itemOf = (sku: string) => emulator.items.find((item) => item.sku === sku)!;
+
+  it("should put items in transit", async () => {
+    const result = await client.dispatch({ "currentLocation.id": "warehouse-1" }, { to: "store-1", client: "client-1" });
+
+    expect(result).toEqual({ acknowledged: true, matchedCount: 2, modifiedCount: 2 });
+    expect(itemOf("ITEM-001").transitTo).toEqual({ id: "store-1", client: "client-1" });
+    expect(itemOf("ITEM-001").currentLocation).toEqual({ id: "warehouse-1", name: "Warehouse" });
+  });
+
+  it("should receive items, clear the transit and record the movement", async () => {
+    await client.dispatch({ sku: "ITEM-001" }, { to: "store-1" });
+
+    await client.receive(
+      { "transitTo.id": "store-1" },
+      { id: "store-1", name: "Store" },
+      { date: new Date("2024-02-01T00:00:00.000Z") }
+    );
+
+    const item = itemOf("ITEM-001");
+    expect(item.currentLocation).toEqual({ id: "store-1", name: "Store" });
+    expect(item.transitTo).toBeUndefined();
+    expect(item.locationHistory).toEqual([
+      { id: "factory-1", name: "Factory", date: "2024-01-01T00:00:00.000Z" },
+      { id: "store-1", name: "Store", date: "2024-02-01T00:00:00.000Z" },
+    ]);
+    expect(itemOf("ITEM-002").currentLocation.id).toBe("warehouse-1");
+  });
+
+  it("should return the movement history with hydrated dates", async () => {
+    await client.receive({ sku: "ITEM-001" }, { id: "store-1" }, { date: "2024-02-01T00:00:00.000Z" });
+
+    const history = await client.getMovementHistory(itemOf("ITEM-001").id);
+
+    expect(history).toEqual([
+      { id: "factory-1", name: "Factory", date: new Date("2024-01-01T00:00:00.000Z") },
+      { id: "store-1", name: "store-1", date: new Date("2024-02-01T00:00:00.000Z") },
+    ]);
+    expect(history[1].date).toBeInstanceOf(Date);
+    await expect(client.getMovementHistory(itemOf("ITEM-002").id)).resolves.toEqual([]);
+    await expect(client.getMovementHistory("missing")).rejects.toThrow(RaukError);
+  });
+
+  it("should require a destination", async () => {
+    await expect(client.dispatch({}, { to: "" })).rejects.toThrow("to is required to dispatch items");
+    await expect(client.receive({}, {})).rejects.toThrow("location.id is required to receive items");
+  });
+});
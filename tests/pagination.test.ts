@@ -0,0 +1,119 @@
+import { RaukInventoryClient, RaukInventoryEmulator } from "../src/index";
+import type { RaukTransportRequest } from "../src/core/transport";
+
+describe("RaukInventoryClient pagination", () => {
+  const config = {
+    apiKeyId: "test-key",
+    apiSecret: "test-secret",
+    apiPublicKey: "test-public",
+  };
+
+  const seed = (count: number) =>
+    Array.from({ length: count }, (_, index) => ({
+      entities: { factoryId: index % 2 === 0 ? "factory-1" : "factory-2", brandId: "brand-1" },
+      sku: `ITEM-${String(index).padStart(3, "0")}`,
+      packageQuantity: index + 1,
+    }));
+
+  let emulator: RaukInventoryEmulator;
+  let client: RaukInventoryClient;
+  let requests: any[][];
+
+  beforeEach(() => {
+    emulator = new RaukInventoryEmulator({ items: seed(25) });
+    requests = [];
+    client = new RaukInventoryClient({
+      ...config,
+      transport: {
+        send: (request: RaukTransportRequest) => {
+          requests.push(JSON.parse(request.body));
+          return emulator.send(request);
+        },
+      },
+    });
+  });
+
+  it("should send skip to the API", async () => {
+    const items = await client.find({}, { sort: { packageQuantity: 1 }, skip: 20 });
+
+    expect(requests[0]).toEqual(["find", {}, { sort: { packageQuantity: 1 }, skip: 20 }]);
+    expect(items.map((item) => item.packageQuantity)).toEqual([21, 22, 23, 24, 25]);
+  });
+
+  it("should turn the after cursor into an id condition", async () => {
+    const [first, second] = await client.find({ "entities.factoryId": "factory-1" }, { limit: 2 });
+
+    const next = await client.find({ "entities.factoryId": "factory-1" }, { after: first.id, limit: 1 });
+
+    expect(next.map((item) => item.id)).toEqual([second.id]);
+    expect(requests[1]).toEqual([
+      "find",
+      { $and: [{ "entities.factoryId": "factory-1" }, { id: { $gt: first.id } }] },
+      { limit: 1, sort: { id: 1 } },
+    ]);
+    await expect(client.find({}, { after: first.id, sort: { sku: 1 } })).rejects.toThrow(
+      "after can only be combined with a sort on id"
+    );
+  });
+
+  it("should fetch pages lazily until a short page", async () => {
+    const pages = client.findPages({}, { pageSize: 10 });
+
+    const first = await pages.next();
+    expect(first.value).toHaveLength(10);
+    expect(requests).toHaveLength(1);
+
+    const sizes = [first.value.length];
+    for await (const page of pages) {
+      sizes.push(page.length);
+    }
+    expect(sizes).toEqual([10, 10, 5]);
+    expect(requests).toHaveLength(3);
+  });
+
+  it("should iterate over every item in id order", async () => {
+    const ids: string[] = [];
+    for await (const item of client.findIterator({ "entities.factoryId": "factory-2" }, { pageSize: 4 })) {
+      ids.push(item.id);
+    }
+
+    expect(ids).toHaveLength(12);
+    expect([...ids].sort()).toEqual(ids);
+    // 12 items in pages of 4 need a final empty page to know the end was reached
+    expect(requests).toHaveLength(4);
+  });
+
+  it("should page in descending id order", async () => {
+    const skus: string[] = [];
+    for await (const item of client.findIterator({}, { pageSize: 10, sort: { id: -1 }, select: { sku: 1 } })) {
+      skus.push(item.sku);
+    }
+
+    expect(skus).toHaveLength(25);
+    expect(skus[0]).toBe("ITEM-024");
+    expect(skus[24]).toBe("ITEM-000");
+  });
+
+  it("should sort the first page on id when ids are stored out of order", async () => {
+    emulator.reset(["b", "a", "d", "c"].map((id) => ({ id, sku: `ITEM-${id}`, packageQuantity: 1 })));
+
+    const ids: string[] = [];
+    for await (const item of client.findIterator({}, { pageSize: 2 })) {
+      ids.push(item.id);
+    }
+    const descending: string[] = [];
+    for await (const item of client.findIterator({}, { pageSize: 2, sort: { id: -1 } })) {
+      descending.push(item.id);
+    }
+
+    expect(ids).toEqual(["a", "b", "c", "d"]);
+    expect(descending).toEqual(["d", "c", "b", "a"]);
+    expect(requests[0]).toEqual(["find", {}, { limit: 2, sort: { id: 1 } }]);
+  });
+
+  it("should reject invalid page sizes", async () => {
+    await expect(client.findPages({}, { pageSize: 0 }).next()).rejects.toThrow(
+      "pageSize must be a positive integer"
+    );
+  });
+});
@@ -0,0 +1,141 @@
+import { PipelineBuilder, RaukInventoryClient, RaukInventoryEmulator, pipeline } from "../src/index";
+
+describe("PipelineBuilder", () => {
+  const emulator = new RaukInventoryEmulator({
+    items: [
+      {
+        sku: "ITEM-001",
+        packageQuantity: 5,
+        color: { name: "Red" },
+        currentLocation: { id: "warehouse-1" },
+        locationHistory: [
+          { id: "factory-1", name: "Factory", date: "2024-01-01T00:00:00.000Z" },
+          { id: "warehouse-1", name: "Warehouse", date: "2024-01-02T00:00:00.000Z" },
+        ],
+      },
+      { sku: "ITEM-001", packageQuantity: 7, color: { name: "Red" }, currentLocation: { id: "warehouse-2" } },
+      {
+        sku: "ITEM-002",
+        packageQuantity: 3,
+        color: { name: "Blue" },
+        currentLocation: { id: "warehouse-1" },
+        transitTo: { id: "store-1", client: "client-1" },
+      },
+    ],
+  });
+  const client = new RaukInventoryClient({
+    apiKeyId: "test-key",
+    apiSecret: "test-secret",
+    apiPublicKey: "test-public",
+    transport: emulator,
+  });
+
+  it("should build the stages in order without mutating earlier builders", () => {
+    const base = pipeline().match({ packageQuantity: { $gte: 5 } });
+    const counted = base.count("total");
+    const limited = base.sort({ sku: 1 }).skip(1).limit(10);
+
+    expect(base.build()).toEqual([{ $match: { packageQuantity: { $gte: 5 } } }]);
+    expect(counted.build()).toEqual([{ $match: { packageQuantity: { $gte: 5 } } }, { $count: "total" }]);
+    expect(limited.build()).toEqual([
+      { $match: { packageQuantity: { $gte: 5 } } },
+      { $sort: { sku: 1 } },
+      { $skip: 1 },
+      { $limit: 10 },
+    ]);
+    expect(new PipelineBuilder().build()).toEqual([]);
+  });
+
+  it("should type grouped results", async () => {
+    const rows = await client.aggregate(
+      pipeline()
+        .match({ "color.name": "Red" })
+        .group("$sku", {
+          count: { $sum: 1 },
+          total: { $sum: "$packageQuantity" },
+          locations: { $addToSet: "$currentLocation.id" },
+        })
+    );
+
+    const typed: { _id: string; count: number; total: number; locations: (string | null | undefined)[] }[] = rows;
+    expect(typed).toEqual([{ _id: "ITEM-001", count: 2, total: 12, locations: ["warehouse-1", "warehouse-2"] }]);
+  });
+
+  it("should type projections, computed fields and counts", async () => {
+    const [projected] = await client.aggregate(
+      pipeline()
+        .match({ sku: "ITEM-002" })
+        .project({ sku: 1, "color.name": 1, doubled: { $multiply: ["$packageQuantity", 2] } })
+    );
+    const shape: { id: string; sku: string; color: { name: string }; doubled: number } = projected;
+    expect(shape).toEqual({ id: expect.any(String), sku: "ITEM-002", color: { name: "Blue" }, doubled: 6 });
+
+    const [withoutId] = await client.aggregate(pipeline().match({ sku: "ITEM-002" }).project({ id: 0, deleted: 0 }));
+    // @ts-expect-error excluded fields are gone from the result type
+    expect(withoutId.id).toBeUndefined();
+    expect(withoutId.sku).toBe("ITEM-002");
+
+    const [added] = await client.aggregate(
+      pipeline().match({ sku: "ITEM-002" }).addFields({ label: { $concat: ["$sku", { $literal: "-" }, "$color.name"] } })
+    );
+    const label: string | null = added.label;
+    expect(label).toBe("ITEM-002-Blue");
+    expect(added.packageQuantity).toBe(3);
+
+    const counted = await client.aggregate(pipeline().match({ "currentLocation.id": "warehouse-1" }).count("atWarehouse"));
+    const count: number = counted[0].atWarehouse;
+    expect(count).toBe(2);
+  });
+
+  it("should type unwound array fields", async () => {
+    const rows = await client.aggregate(
+      pipeline()
+        .unwind({ path: "$locationHistory", includeArrayIndex: "step" })
+        .project({ sku: 1, step: 1, "locationHistory.id": 1 })
+        .sort({ step: 1 })
+    );
+
+    const entries: { id: string; sku: string; step: number; locationHistory: { id: string } }[] = rows;
+    expect(entries.map((row) => [row.locationHistory.id, row.step])).toEqual([
+      ["factory-1", 0],
+      ["warehouse-1", 1],
+    ]);
+  });
+
+  it("should drop null from the paths matched as present", async () => {
+    const destinations = pipeline()
+      .match({ "transitTo.id": { $ne: null } })
+      .group("$sku", { ids: { $addToSet: "$transitTo.id" } });
+
+    const rows = await client.aggregate(destinations);
+    const ids: string[][] = rows.map((row) => row.ids);
+
+    expect(ids).toEqual([["store-1"]]);
+  });
+
+  it("should reject invalid field references at compile time", () => {
+    const items = pipeline();
+
+    // @ts-expect-error misspelled field in an accumulator
+    items.group("$sku", { total: { $sum: "$pakageQuantity" } });
+    // @ts-expect-error $sum needs a numeric field
+    items.group("$sku", { total: { $sum: "$sku" } });
+    // @ts-expect-error unknown group key
+    items.group("$skew", { count: { $sum: 1 } });
+    // @ts-expect-error unknown path in $match
+    items.match({ colour: "Red" });
+    // @ts-expect-error unknown path next to a known one
+    items.match({ sku: "ITEM-001", colour: "Red" });
+    // @ts-expect-error inclusion flag on an unknown path
+    items.project({ pakageQuantity: 1 });
+    // @ts-expect-error only array fields can be unwound
+    items.unwind("$sku");
+
+    const grouped = items.group("$sku", { total: { $sum: "$packageQuantity" } });
+    // @ts-expect-error fields of the items are gone after grouping
+    grouped.sort({ packageQuantity: -1 });
+    grouped.sort({ total: -1 });
+
+    expect(grouped.build()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,62 @@
+import { RaukInventoryClient, RaukInventoryEmulator } from "../src/index";
+import type { InventoryItem } from "../src/types/item";
+import type { ProjectedItem } from "../src/types/projection";
+
+type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2 ? true : false;
+const assertType = <T extends true>(value: T) => value;
+
+describe("typed projections", () => {
+  it("should pick included fields and keep the id", () => {
+    type Projected = ProjectedItem<{ sku: 1; "color.name": 1 }>;
+
+    assertType<Equals<keyof Projected, "sku" | "color" | "id">>(true);
+    assertType<Equals<Projected["color"], { name: string }>>(true);
+  });
+
+  it("should drop the id when excluded explicitly", () => {
+    assertType<Equals<keyof ProjectedItem<{ sku: 1; id: 0 }>, "sku">>(true);
+  });
+
+  it("should project array elements through dot notation", () => {
+    type Projected = ProjectedItem<{ "locationHistory.date": 1 }>;
+
+    assertType<Equals<Projected["locationHistory"], { date: Date }[] | undefined>>(true);
+  });
+
+  it("should omit excluded fields", () => {
+    type Projected = ProjectedItem<{ locationHistory: 0; "color.id": 0 }>;
+
+    assertType<Equals<"locationHistory" extends keyof Projected ? true : false, false>>(true);
+    assertType<Equals<Projected["color"], { name: string }>>(true);
+    assertType<Equals<Projected["sku"], string>>(true);
+  });
+
+  it("should return the full item without a selection", () => {
+    assertType<Equals<ProjectedItem<{}>, InventoryItem>>(true);
+  });
+
+  it("should narrow the return type of the client methods", async () => {
+    const client = new RaukInventoryClient({
+      apiKeyId: "test-key",
+      apiSecret: "test-secret",
+      apiPublicKey: "test-public",
+      transport: new RaukInventoryEmulator({
+        items: [{ sku: "ITEM-001", packageQuantity: 5, color: { name: "Red" }, currentLocation: { id: "warehouse-1" } }],
+      }),
+    });
+
+    const [item] = await client.find({}, { select: { sku: 1, "color.name": 1 } });
+    expect(item).toEqual({ id: expect.any(String), sku: "ITEM-001", color: { name: "Red" } });
+    // @ts-expect-error currentLocation was not selected
+    expect(item.currentLocation).toBeUndefined();
+
+    const one = await client.findOne({ sku: "ITEM-001" }, { select: { packageQuantity: 1, id: 0 } });
+    expect(one).toEqual({ packageQuantity: 5 });
+
+    const full = await client.findOne({ sku: "ITEM-001" });
+    expect(full?.currentLocation).toEqual({ id: "warehouse-1" });
+
+    // @ts-expect-error selected paths are checked against the item schema
+    await client.find({}, { select: { colour: 1 } });
+  });
+});
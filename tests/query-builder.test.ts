@@ -0,0 +1,88 @@
+import { QueryBuilder, RaukInventoryEmulator, RaukInventoryClient, matchesQuery, where } from "../src/index";
+
+describe("QueryBuilder", () => {
+  it("should combine conditions on several fields", () => {
+    const query = where("packageQuantity").gte(10).and("color.name").in(["Red", "Blue"]).build();
+
+    expect(query).toEqual({ packageQuantity: { $gte: 10 }, "color.name": { $in: ["Red", "Blue"] } });
+  });
+
+  it("should merge operators on the same field and keep conflicts apart", () => {
+    const query = where("packageQuantity")
+      .gte(10)
+      .and("packageQuantity")
+      .lt(20)
+      .and("packageQuantity")
+      .gte(12)
+      .and("sku")
+      .eq("ITEM-001")
+      .build();
+
+    expect(query).toEqual({
+      packageQuantity: { $gte: 10, $lt: 20 },
+      sku: "ITEM-001",
+      $and: [{ packageQuantity: { $gte: 12 } }],
+    });
+  });
+
+  it("should compile logical operators from builders and plain queries", () => {
+    const query = new QueryBuilder()
+      .where("deleted.status")
+      .eq(false)
+      .or(where("transitTo.id").exists(false), { "transitTo.client": "client-1" })
+      .or(where("sku").regex(/^red-/i), where("sku").regex("^blue-"))
+      .nor(where("packageQuantity").eq(0))
+      .build();
+
+    expect(query).toEqual({
+      "deleted.status": false,
+      $or: [{ "transitTo.id": { $exists: false } }, { "transitTo.client": "client-1" }],
+      $nor: [{ packageQuantity: 0 }],
+      $and: [{ $or: [{ sku: { $regex: "^red-", $options: "i" } }, { sku: { $regex: "^blue-" } }] }],
+    });
+  });
+
+  it("should accept dates or ISO strings in range conditions", () => {
+    const since = new Date("2024-01-01T00:00:00.000Z");
+    const query = where("createdAt").gte(since).and("updatedAt").lt("2024-02-01T00:00:00.000Z").build();
+
+    expect(matchesQuery({ createdAt: "2024-01-10T00:00:00.000Z", updatedAt: "2024-01-11T00:00:00.000Z" }, query)).toBe(true);
+  });
+
+  it("should only expose operators valid for the field type", () => {
+    where("locationHistory").elemMatch({ id: "warehouse-1", date: { $gte: "2024-01-01" } });
+    where("locationHistory").size(2);
+    where("packageQuantity").mod(5, 0);
+
+    // @ts-expect-error regex only applies to string fields
+    where("packageQuantity").regex("^1");
+    // @ts-expect-error range operators do not apply to booleans
+    where("deleted.status").gt(true);
+    // @ts-expect-error values must match the field type
+    where("packageQuantity").eq("ten");
+    // @ts-expect-error unknown paths are rejected
+    where("colour.name");
+  });
+
+  it("should produce queries the client accepts", async () => {
+    const emulator = new RaukInventoryEmulator({
+      items: [
+        { sku: "ITEM-001", packageQuantity: 5, color: { name: "Red" } },
+        { sku: "ITEM-002", packageQuantity: 15, color: { name: "Red" } },
+        { sku: "ITEM-003", packageQuantity: 25, color: { name: "Green" } },
+      ],
+    });
+    const client = new RaukInventoryClient({
+      apiKeyId: "test-key",
+      apiSecret: "test-secret",
+      apiPublicKey: "test-public",
+      transport: emulator,
+    });
+
+    const query = where("packageQuantity").gte(10).and("color.name").eq("Red").build();
+
+    expect((await client.find(query)).map((item) => item.sku)).toEqual(["ITEM-002"]);
+    await expect(client.deleteMany(query)).resolves.toEqual({ deletedCount: 1 });
+    await expect(client.aggregate([{ $match: where("color.name").ne("Red").build() }])).resolves.toHaveLength(1);
+  });
+});
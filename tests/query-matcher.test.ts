@@ -0,0 +1,100 @@
+import { matchesQuery, createQueryMatcher } from "../src/index";
+import { RaukQueryEvaluationError } from "../src/utils/errors";
+
+describe("matchesQuery", () => {
+  const item = {
+    id: "68e7f70f8d21cb8e86067aff",
+    sku: "RED-SHOES-42",
+    packageQuantity: 12,
+    color: { id: "color-red-001", name: "Crimson Red" },
+    entities: { factoryId: "factory-001", brandId: "brand-999" },
+    currentLocation: { id: "warehouse-nyc", name: "New York Warehouse" },
+    availability: {
+      reserved: { orderId: "order-1", temporary: true, expiration: "2024-01-25T14:30:00.000Z" },
+    },
+    deleted: { status: false },
+    locationHistory: [
+      { id: "factory-001", name: "Manufacturing Plant", date: "2024-01-01T08:00:00.000Z" },
+      { id: "warehouse-nyc", name: "New York Warehouse", date: "2024-01-10T09:15:00.000Z" },
+    ],
+    createdAt: "2024-01-01T08:00:00.000Z",
+  };
+
+  it("should match equality and dot-notation paths", () => {
+    expect(matchesQuery(item, { sku: "RED-SHOES-42" })).toBe(true);
+    expect(matchesQuery(item, { "color.name": "Crimson Red" })).toBe(true);
+    expect(matchesQuery(item, { "color.name": "Blue" })).toBe(false);
+    expect(matchesQuery(item, { "locationHistory.id": "warehouse-nyc" })).toBe(true);
+    expect(matchesQuery(item, { transitTo: null })).toBe(true);
+  });
+
+  it("should evaluate comparison and set operators", () => {
+    expect(matchesQuery(item, { packageQuantity: { $gte: 10, $lt: 20 } })).toBe(true);
+    expect(matchesQuery(item, { packageQuantity: { $gt: 12 } })).toBe(false);
+    expect(matchesQuery(item, { packageQuantity: { $ne: 12 } })).toBe(false);
+    expect(matchesQuery(item, { sku: { $in: ["A", "RED-SHOES-42"] } })).toBe(true);
+    expect(matchesQuery(item, { sku: { $nin: ["A", "RED-SHOES-42"] } })).toBe(false);
+    expect(matchesQuery(item, { "transitTo.id": { $exists: false } })).toBe(true);
+  });
+
+  it("should evaluate $regex with $options", () => {
+    expect(matchesQuery(item, { "color.name": { $regex: "^crimson", $options: "i" } })).toBe(true);
+    expect(matchesQuery(item, { "color.name": { $regex: "^crimson" } })).toBe(false);
+    expect(matchesQuery(item, { "color.name": { $not: { $regex: "Blue" } } })).toBe(true);
+  });
+
+  it("should evaluate array operators", () => {
+    expect(matchesQuery(item, { locationHistory: { $size: 2 } })).toBe(true);
+    expect(
+      matchesQuery(item, {
+        locationHistory: { $elemMatch: { id: "factory-001", date: { $lt: "2024-01-02T00:00:00.000Z" } } },
+      })
+    ).toBe(true);
+    expect(
+      matchesQuery(item, { locationHistory: { $elemMatch: { id: "factory-001", name: "New York Warehouse" } } })
+    ).toBe(false);
+  });
+
+  it("should evaluate $mod and $type", () => {
+    expect(matchesQuery(item, { packageQuantity: { $mod: [5, 2] } })).toBe(true);
+    expect(matchesQuery(item, { packageQuantity: { $type: "number" } })).toBe(true);
+    expect(matchesQuery(item, { sku: { $type: 2 } })).toBe(true);
+    expect(matchesQuery(item, { createdAt: { $type: "date" } })).toBe(true);
+    expect(matchesQuery(item, { locationHistory: { $type: "array" } })).toBe(true);
+  });
+
+  it("should evaluate logical operators", () => {
+    expect(matchesQuery(item, { $or: [{ sku: "A" }, { packageQuantity: 12 }] })).toBe(true);
+    expect(matchesQuery(item, { $and: [{ sku: "A" }, { packageQuantity: 12 }] })).toBe(false);
+    expect(matchesQuery(item, { $nor: [{ sku: "A" }, { sku: "B" }] })).toBe(true);
+    expect(matchesQuery(item, { $not: { sku: "RED-SHOES-42" } })).toBe(false);
+  });
+
+  it("should compare hydrated dates and availability maps", () => {
+    const hydrated = {
+      ...item,
+      createdAt: new Date("2024-01-01T08:00:00.000Z"),
+      availability: new Map([["sold", { orderId: "order-2", date: new Date("2024-02-01T00:00:00.000Z") }]]),
+    };
+
+    expect(matchesQuery(hydrated, { createdAt: { $lt: "2024-01-02T00:00:00.000Z" } })).toBe(true);
+    expect(matchesQuery(hydrated, { "availability.sold.orderId": "order-2" })).toBe(true);
+    expect(matchesQuery(hydrated, { "availability.reserved": { $exists: true } })).toBe(false);
+  });
+
+  it("should throw for operators it cannot evaluate", () => {
+    expect(() => matchesQuery(item, { sku: { $text: { $search: "shoes" } } })).toThrow(
+      RaukQueryEvaluationError
+    );
+    expect(() => matchesQuery(item, { $or: [{ sku: "A" }, { packageQuantity: { $expr: {} } }] })).toThrow(
+      "$expr cannot be evaluated locally"
+    );
+    expect(() => matchesQuery(item, { sku: { $unknown: 1 } })).toThrow("Unknown query operator $unknown");
+  });
+
+  it("should build reusable matchers", () => {
+    const inStock = createQueryMatcher({ packageQuantity: { $gt: 0 } });
+
+    expect([item, { ...item, packageQuantity: 0 }].filter(inStock)).toEqual([item]);
+  });
+});
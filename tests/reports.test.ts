@@ -0,0 +1,67 @@
+import { RaukInventoryClient, RaukInventoryEmulator, stockOnHandPipeline } from "../src/index";
+import { item } from "./fixtures";
+
+describe("inventory reports", () => {
+  const emulator = new RaukInventoryEmulator({
+    items: [
+      item("ITEM-001", { availability: { produced: { date: "2024-01-01T00:00:00.000Z" } } }),
+      item("ITEM-001", { packageQuantity: 5, availability: { reserved: { orderId: "order-1" } } }),
+      item("ITEM-001", { currentLocation: { id: "warehouse-2" }, availability: { sold: { orderId: "order-2" } } }),
+      item("ITEM-002", { packageQuantity: 20, transitTo: { id: "store-1", client: "client-1" } }),
+      item("ITEM-002", { packageQuantity: 30, transitTo: { id: "store-2", client: "client-1" } }),
+      // Stored documents missing fields the API requires on create
+      {
+        ...item("ITEM-003", {
+          packageQuantity: 1,
+          transitTo: { id: "store-3" },
+          entities: { factoryId: "factory-2", brandId: "brand-2" },
+          brandDetails: undefined,
+          factoryDetails: undefined,
+        }),
+        currentLocation: { id: null },
+      },
+      { ...item("ITEM-004", { entities: { factoryId: "factory-2", brandId: "brand-2" } }), currentLocation: {} },
+    ],
+  });
+  const client = new RaukInventoryClient({
+    apiKeyId: "test-key",
+    apiSecret: "test-secret",
+    apiPublicKey: "test-public",
+    transport: emulator,
+  });
+
+  it("should report stock on hand per SKU and location", async () => {
+    expect(await client.getStockOnHand()).toEqual([
+      { sku: "ITEM-001", locationId: "warehouse-1", items: 2, quantity: 15 },
+      { sku: "ITEM-004", locationId: null, items: 1, quantity: 10 },
+    ]);
+  });
+
+  it("should apply the filter before aggregating", async () => {
+    expect(await client.getStockOnHand({ packageQuantity: { $lt: 10 } })).toEqual([
+      { sku: "ITEM-001", locationId: "warehouse-1", items: 1, quantity: 5 },
+    ]);
+    expect(stockOnHandPipeline({ sku: "ITEM-001" }).build()[0]).toEqual({ $match: { sku: "ITEM-001" } });
+  });
+
+  it("should count availability states per brand", async () => {
+    expect(await client.getAvailabilityByBrand()).toEqual([
+      { brandId: "brand-1", brandName: "Acme", items: 5, produced: 1, reserved: 1, sold: 1 },
+      { brandId: "brand-2", brandName: null, items: 2, produced: 0, reserved: 0, sold: 0 },
+    ]);
+  });
+
+  it("should report items in transit per client", async () => {
+    expect(await client.getInTransitByClient()).toEqual([
+      { client: null, destinations: ["store-3"], items: 1, quantity: 1 },
+      { client: "client-1", destinations: ["store-1", "store-2"], items: 2, quantity: 50 },
+    ]);
+  });
+
+  it("should total quantities per factory", async () => {
+    expect(await client.getQuantityByFactory({ sku: { $ne: "ITEM-004" } })).toEqual([
+      { factoryId: "factory-1", factoryName: "Main Factory", items: 5, quantity: 75 },
+      { factoryId: "factory-2", factoryName: null, items: 1, quantity: 1 },
+    ]);
+  });
+});
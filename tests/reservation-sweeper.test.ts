@@ -0,0 +1,171 @@
+import { RaukInventoryClient, RaukInventoryEmulator, ReservationSweeper } from "../src/index";
+import type { RaukTransport } from "../src/core/transport";
+
+describe("ReservationSweeper", () => {
+  const config = {
+    apiKeyId: "test-key",
+    apiSecret: "test-secret",
+    apiPublicKey: "test-public",
+  };
+
+  const reserved = (sku: string, expiration: string, temporary = true) => ({
+    sku,
+    packageQuantity: 1,
+    availability: { reserved: { orderId: `order-${sku}`, temporary, expiration } },
+  });
+
+  let emulator: RaukInventoryEmulator;
+  let client: RaukInventoryClient;
+  let operations: string[];
+  let clock: Date;
+
+  beforeEach(() => {
+    emulator = new RaukInventoryEmulator({
+      items: [
+        reserved("ITEM-001", "2024-01-01T00:05:00.000Z"),
+        reserved("ITEM-002", "2024-01-01T00:10:00.000Z"),
+        reserved("ITEM-003", "2024-01-01T00:30:00.000Z"),
+        reserved("ITEM-004", "2024-01-01T00:05:00.000Z", false),
+        { sku: "ITEM-005", packageQuantity: 1 },
+      ],
+    });
+    operations = [];
+    const transport: RaukTransport = {
+      send: (request) => {
+        operations.push(JSON.parse(request.body)[0]);
+        return emulator.send(request);
+      },
+    };
+    client = new RaukInventoryClient({ ...config, transport });
+    clock = new Date("2024-01-01T00:15:00.000Z");
+  });
+
+  const reservedSkus = () =>
+    emulator.items.filter((item) => item.availability?.reserved).map((item) => item.sku);
+
+  it("should release expired temporary reservations in batches", async () => {
+    const sweeper = new ReservationSweeper(client, { batchSize: 1, now: () => clock });
+
+    const result = await sweeper.sweepOnce();
+
+    expect(result.released.map((reservation) => reservation.orderId)).toEqual(["order-ITEM-001", "order-ITEM-002"]);
+    expect(result).toEqual(
+      expect.objectContaining({ skipped: [], batches: 2, sweptAt: "2024-01-01T00:15:00.000Z" })
+    );
+    expect(operations.filter((operation) => operation === "bulkWrite")).toHaveLength(2);
+    expect(reservedSkus()).toEqual(["ITEM-003", "ITEM-004"]);
+  });
+
+  it("should give every batch its own idempotency key", async () => {
+    const keys: (string | undefined)[] = [];
+    const recording = new RaukInventoryClient({
+      ...config,
+      transport: {
+        send: (request) => {
+          if (JSON.parse(request.body)[0] === "bulkWrite") {
+            keys.push(request.headers["Idempotency-Key"]);
+          }
+          return emulator.send(request);
+        },
+      },
+    });
+    const sweeper = new ReservationSweeper(recording, { batchSize: 1, now: () => clock });
+
+    const result = await sweeper.sweepOnce({ idempotencyKey: "sweep-1" });
+
+    expect(result.released).toHaveLength(2);
+    expect(keys).toEqual(["sweep-1:0", "sweep-1:1"]);
+    expect(reservedSkus()).toEqual(["ITEM-003", "ITEM-004"]);
+  });
+
+  it("should follow the injected clock", async () => {
+    const sweeper = new ReservationSweeper(client, { now: () => clock });
+
+    clock = new Date("2024-01-01T00:00:00.000Z");
+    expect((await sweeper.sweepOnce()).released).toEqual([]);
+
+    clock = new Date("2024-01-01T01:00:00.000Z");
+    expect((await sweeper.sweepOnce()).released).toHaveLength(3);
+    expect(reservedSkus()).toEqual(["ITEM-004"]);
+  });
+
+  it("should skip reservations renewed while sweeping", async () => {
+    const renewing: RaukTransport = {
+      send: async (request) => {
+        if (JSON.parse(request.body)[0] === "bulkWrite") {
+          emulator.execute([
+            "updateMany",
+            { sku: "ITEM-002" },
+            { $set: { "availability.reserved.expiration": "2024-01-01T01:00:00.000Z" } },
+          ]);
+        }
+        return emulator.send(request);
+      },
+    };
+    const sweeper = new ReservationSweeper(new RaukInventoryClient({ ...config, transport: renewing }), {
+      now: () => clock,
+    });
+
+    const result = await sweeper.sweepOnce();
+
+    expect(result.released.map((reservation) => reservation.orderId)).toEqual(["order-ITEM-001"]);
+    expect(result.skipped.map((reservation) => reservation.orderId)).toEqual(["order-ITEM-002"]);
+    expect(reservedSkus()).toEqual(["ITEM-002", "ITEM-003", "ITEM-004"]);
+  });
+
+  it("should sweep on an interval until stopped", async () => {
+    jest.useFakeTimers();
+    try {
+      const onSweep = jest.fn();
+      const sweeper = new ReservationSweeper(client, { intervalMs: 1000, now: () => clock, onSweep });
+
+      sweeper.start();
+      expect(sweeper.running).toBe(true);
+      await jest.advanceTimersByTimeAsync(0);
+      expect(onSweep).toHaveBeenCalledTimes(1);
+      expect(onSweep.mock.calls[0][0].released).toHaveLength(2);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(onSweep).toHaveBeenCalledTimes(2);
+
+      sweeper.stop();
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(onSweep).toHaveBeenCalledTimes(2);
+      expect(sweeper.running).toBe(false);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("should report failed scheduled sweeps and keep running", async () => {
+    const failing = new RaukInventoryClient({
+      ...config,
+      transport: {
+        send: async () => ({
+          ok: false,
+          status: 500,
+          json: async () => ({ success: false, error: { name: "InternalServerError", message: "boom" } }),
+        }),
+      },
+    });
+    const errors: unknown[] = [];
+    let sweeper!: ReservationSweeper;
+
+    await new Promise<void>((resolve) => {
+      sweeper = new ReservationSweeper(failing, {
+        intervalMs: 5,
+        onError: (error) => {
+          errors.push(error);
+          if (errors.length === 2) {
+            resolve();
+          }
+        },
+      });
+      sweeper.start();
+    });
+
+    expect(sweeper.running).toBe(true);
+    sweeper.stop();
+    expect(errors[0]).toEqual(expect.objectContaining({ message: "boom" }));
+  });
+});
@@ -0,0 +1,104 @@
+import { RaukInventoryClient } from "../src/index";
+import type { RaukTransport } from "../src/core/transport";
+import { RaukResponseShapeError } from "../src/utils/errors";
+import { item } from "./fixtures";
+
+describe("response shape verification", () => {
+  const config = {
+    apiKeyId: "test-key",
+    apiSecret: "test-secret",
+    apiPublicKey: "test-public",
+  };
+
+  const apiItem = {
+    id: "68e7f70f8d21cb8e86067aff",
+    sku: "ITEM-001",
+    packageQuantity: 12,
+    entities: { factoryId: "factory-1", brandId: "brand-1" },
+    currentLocation: { id: "warehouse-1", name: null },
+    color: { id: "red", name: "Red" },
+    deleted: { status: false },
+    availability: { reserved: { orderId: "order-1", expiration: "2024-01-25T14:30:00.000Z" } },
+    locationHistory: [{ id: "factory-1", name: "Factory", date: "2024-01-01T08:00:00.000Z" }],
+    createdAt: "2024-01-01T08:00:00.000Z",
+  };
+
+  const respondWith = (response: unknown): RaukTransport => ({
+    send: async () => ({ ok: true, status: 200, json: async () => response }),
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should accept responses with the expected shape", async () => {
+    const client = new RaukInventoryClient({ ...config, responseValidation: "strict", transport: respondWith([apiItem]) });
+
+    await expect(client.find({})).resolves.toHaveLength(1);
+  });
+
+  it("should report the offending path in strict mode", async () => {
+    const broken = { ...apiItem, locationHistory: [{ ...apiItem.locationHistory[0], date: "yesterday" }] };
+    const client = new RaukInventoryClient({ ...config, responseValidation: "strict", transport: respondWith([broken]) });
+
+    const error = await client.find({}).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RaukResponseShapeError);
+    expect(error.path).toBe("response[0].locationHistory[0].date");
+    expect(error.message).toBe(
+      "Unexpected find response: response[0].locationHistory[0].date should be date but is string"
+    );
+  });
+
+  it("should verify update, delete and insert results", async () => {
+    const update = new RaukInventoryClient({
+      ...config,
+      responseValidation: "strict",
+      transport: respondWith({ acknowledged: true, matchedCount: "1", modifiedCount: 1 }),
+    });
+    await expect(update.update({ sku: "ITEM-001" }, { packageQuantity: 1 })).rejects.toMatchObject({
+      path: "response.matchedCount",
+    });
+
+    const remove = new RaukInventoryClient({ ...config, responseValidation: "strict", transport: respondWith({}) });
+    await expect(remove.deleteMany({})).rejects.toMatchObject({ path: "response.deletedCount" });
+
+    const insert = new RaukInventoryClient({
+      ...config,
+      responseValidation: "strict",
+      transport: respondWith({ acknowledged: true, insertedId: 42 }),
+    });
+    await expect(insert.create(item("ITEM-001"))).rejects.toMatchObject({ path: "response.insertedId" });
+  });
+
+  it("should accept missing fields when fields were selected", async () => {
+    const client = new RaukInventoryClient({
+      ...config,
+      responseValidation: "strict",
+      transport: respondWith([{ id: "1", sku: "ITEM-001" }]),
+    });
+
+    await expect(client.find({}, { select: { sku: 1 } })).resolves.toEqual([{ id: "1", sku: "ITEM-001" }]);
+    await expect(client.find({})).rejects.toMatchObject({ path: "response[0].packageQuantity" });
+  });
+
+  it("should only log a warning in warn mode", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    const client = new RaukInventoryClient({
+      ...config,
+      responseValidation: "warn",
+      transport: respondWith([{ ...apiItem, packageQuantity: null }]),
+    });
+
+    await expect(client.find({})).resolves.toHaveLength(1);
+    expect(warn).toHaveBeenCalledWith(
+      "[rauk-inventory] Unexpected find response: response[0].packageQuantity should be number but is null"
+    );
+  });
+
+  it("should not verify responses by default", async () => {
+    const client = new RaukInventoryClient({ ...config, transport: respondWith([{ unexpected: true }]) });
+
+    await expect(client.find({})).resolves.toEqual([{ unexpected: true }]);
+  });
+});
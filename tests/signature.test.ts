@@ -0,0 +1,193 @@
+import {
+  RaukInventoryClient,
+  RaukInventoryEmulator,
+  RaukTransport,
+  createMemoryNonceStore,
+  verifySignature,
+} from "../src/index";
+import { signRequest } from "../src/utils/sign-request";
+import { RaukAuthenticationError } from "../src/utils/errors";
+
+describe("verifySignature", () => {
+  const credentials = { apiKeyId: "key-1", apiSecret: "secret-1", apiPublicKey: "public-1" };
+  const body = ["find", { sku: "ITEM-001" }];
+  const secrets: Record<string, string> = { "key-1": "secret-1" };
+  const lookup = (apiKeyId: string) => secrets[apiKeyId];
+  const now = 1_700_000_000_000;
+
+  const sign = (at: number = now) => {
+    jest.spyOn(Date, "now").mockReturnValueOnce(at);
+    return signRequest(credentials, body);
+  };
+
+  const signV2 = (method?: string, path?: string) => {
+    jest.spyOn(Date, "now").mockReturnValueOnce(now);
+    return signRequest(credentials, body, { version: "v2", method, path });
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should accept signatures from signRequest", async () => {
+    const header = sign();
+
+    expect(await verifySignature(header, body, lookup, { now })).toEqual({
+      valid: true,
+      version: "v1",
+      apiKeyId: "key-1",
+      apiPublicKey: "public-1",
+      timestamp: now,
+    });
+    expect((await verifySignature(header, JSON.stringify(body), async () => "secret-1", { now })).valid).toBe(true);
+  });
+
+  it("should refuse tampered bodies, wrong secrets and unknown keys", async () => {
+    const header = sign();
+
+    expect(await verifySignature(header, ["find", { sku: "ITEM-002" }], lookup, { now })).toEqual({
+      valid: false,
+      reason: "invalid-signature",
+    });
+    expect(await verifySignature(header, body, () => "other-secret", { now })).toEqual({
+      valid: false,
+      reason: "invalid-signature",
+    });
+    expect(await verifySignature(header, body, () => undefined, { now })).toEqual({
+      valid: false,
+      reason: "unknown-key",
+    });
+  });
+
+  it("should refuse stale and future timestamps", async () => {
+    const lookupSpy = jest.fn(lookup);
+
+    expect(await verifySignature(sign(now - 60_001), body, lookupSpy, { now, maxSkewMs: 60_000 })).toEqual({
+      valid: false,
+      reason: "stale-timestamp",
+    });
+    expect(await verifySignature(sign(now + 60_001), body, lookupSpy, { now, maxSkewMs: 60_000 })).toEqual({
+      valid: false,
+      reason: "future-timestamp",
+    });
+    expect(lookupSpy).not.toHaveBeenCalled();
+    expect((await verifySignature(sign(now - 60_000), body, lookupSpy, { now, maxSkewMs: 60_000 })).valid).toBe(true);
+    // Five minutes by default
+    expect((await verifySignature(sign(now - 5 * 60_000 - 1), body, lookup, { now })).valid).toBe(false);
+  });
+
+  it("should refuse missing and malformed headers", async () => {
+    const [keyId, publicKey, hmac] = sign().split(".");
+    const malformed = [
+      "garbage",
+      `${keyId}.${publicKey}.${hmac}`,
+      `${keyId}.${publicKey}.not-hex.${Buffer.from(String(now)).toString("base64")}`,
+      `${keyId}.${publicKey}.${hmac}.${Buffer.from("yesterday").toString("base64")}`,
+    ];
+
+    expect(await verifySignature(undefined, body, lookup)).toEqual({ valid: false, reason: "missing-signature" });
+    for (const header of malformed) {
+      expect(await verifySignature(header, body, lookup, { now })).toEqual({ valid: false, reason: "malformed-signature" });
+    }
+  });
+
+  it("should let the emulator authenticate requests", async () => {
+    const emulator = new RaukInventoryEmulator({
+      items: [{ sku: "ITEM-001", packageQuantity: 1 }],
+      apiKeys: { "key-1": "secret-1" },
+    });
+    const client = new RaukInventoryClient({ ...credentials, transport: emulator });
+    const intruder = new RaukInventoryClient({ ...credentials, apiSecret: "guessed", transport: emulator });
+
+    expect(await client.find({ sku: "ITEM-001" })).toHaveLength(1);
+    await expect(intruder.find({ sku: "ITEM-001" })).rejects.toThrow(RaukAuthenticationError);
+    await expect(intruder.find({ sku: "ITEM-001" })).rejects.toThrow("invalid-signature");
+  });
+
+  it("should sign v2 requests with a nonce, the method and the path", async () => {
+    const header = signV2("POST", "/query");
+    const [version, keyId, publicKey, nonce] = header.split(".");
+
+    expect([version, keyId, publicKey]).toEqual(["v2", "key-1", "public-1"]);
+    expect(nonce).toMatch(/^[0-9a-f]{32}$/);
+    expect(signV2()).not.toBe(header);
+    expect(await verifySignature(header, body, lookup, { now })).toEqual({
+      valid: true,
+      version: "v2",
+      apiKeyId: "key-1",
+      apiPublicKey: "public-1",
+      timestamp: now,
+      nonce,
+    });
+
+    for (const [method, path] of [["GET", "/query"], ["POST", "/admin"]]) {
+      expect(await verifySignature(header, body, lookup, { now, method, path })).toEqual({
+        valid: false,
+        reason: "invalid-signature",
+      });
+    }
+    expect(await verifySignature(header.replace(nonce, "0".repeat(32)), body, lookup, { now })).toEqual({
+      valid: false,
+      reason: "invalid-signature",
+    });
+  });
+
+  it("should refuse replayed nonces and the versions that are not accepted", async () => {
+    const nonceStore = createMemoryNonceStore(() => now);
+    const header = signV2();
+
+    expect((await verifySignature(header, body, () => "wrong", { now, nonceStore })).valid).toBe(false);
+    expect((await verifySignature(header, body, lookup, { now, nonceStore })).valid).toBe(true);
+    expect(await verifySignature(header, body, lookup, { now, nonceStore })).toEqual({
+      valid: false,
+      reason: "replayed-nonce",
+    });
+    expect((await verifySignature(signV2(), body, lookup, { now, nonceStore })).valid).toBe(true);
+
+    expect(await verifySignature(sign(), body, lookup, { now, versions: ["v2"] })).toEqual({
+      valid: false,
+      reason: "unsupported-version",
+    });
+  });
+
+  it("should forget nonces once their signature is stale", async () => {
+    let clock = now;
+    const nonceStore = createMemoryNonceStore(() => clock);
+
+    expect(await nonceStore.add("key-1", "nonce-1", now + 1000)).toBe(true);
+    expect(await nonceStore.add("key-1", "nonce-1", now + 1000)).toBe(false);
+    expect(await nonceStore.add("key-2", "nonce-1", now + 1000)).toBe(true);
+    clock = now + 1001;
+    expect(await nonceStore.add("key-1", "nonce-1", clock + 1000)).toBe(true);
+  });
+
+  it("should send v2 signatures when configured and let the emulator refuse replays", async () => {
+    const emulator = new RaukInventoryEmulator({
+      items: [{ sku: "ITEM-001", packageQuantity: 1 }],
+      apiKeys: { "key-1": "secret-1" },
+    });
+    const sent: Parameters<RaukTransport["send"]>[0][] = [];
+    const recorder: RaukTransport = {
+      send: (request) => {
+        sent.push(request);
+        return emulator.send(request);
+      },
+    };
+    const client = new RaukInventoryClient({
+      ...credentials,
+      apiBaseUrl: "https://inventory.rauk.local/api",
+      signatureVersion: "v2",
+      transport: recorder,
+    });
+
+    expect(await client.find({ sku: "ITEM-001" })).toHaveLength(1);
+    expect(sent[0].headers["Rai-Signature"]).toMatch(/^v2\.key-1\.public-1\./);
+    expect(
+      (await verifySignature(sent[0].headers["Rai-Signature"], sent[0].body, lookup, { path: "/api/query" })).valid
+    ).toBe(true);
+
+    const replayed = await emulator.send(sent[0]);
+    expect(replayed.status).toBe(401);
+    expect((await replayed.json()).error.message).toContain("replayed-nonce");
+  });
+});
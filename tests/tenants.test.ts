@@ -0,0 +1,85 @@
+import { RaukInventory, RaukInventoryEmulator } from "../src/index";
+import { RaukError } from "../src/utils/errors";
+
+describe("RaukInventory tenant registry", () => {
+  const configFor = (tenant: string, emulator: RaukInventoryEmulator) => ({
+    apiKeyId: `${tenant}-key`,
+    apiSecret: `${tenant}-secret`,
+    apiPublicKey: `${tenant}-public`,
+    transport: emulator,
+  });
+
+  let brandA: RaukInventoryEmulator;
+  let brandB: RaukInventoryEmulator;
+
+  beforeEach(() => {
+    brandA = new RaukInventoryEmulator({ items: [{ sku: "A-001", packageQuantity: 1 }] });
+    brandB = new RaukInventoryEmulator({ items: [{ sku: "B-001", packageQuantity: 2 }] });
+  });
+
+  afterEach(() => {
+    RaukInventory.disposeAll();
+  });
+
+  it("should route each tenant to its own client", async () => {
+    RaukInventory.register("brand-a", configFor("brand-a", brandA));
+    RaukInventory.register("brand-b", configFor("brand-b", brandB));
+
+    expect((await RaukInventory.use("brand-a").find({})).map((item) => item.sku)).toEqual(["A-001"]);
+    expect((await RaukInventory.use("brand-b").find({})).map((item) => item.sku)).toEqual(["B-001"]);
+    expect(RaukInventory.getTenants()).toEqual(["brand-a", "brand-b"]);
+    expect(() => RaukInventory.use("brand-c")).toThrow('Tenant "brand-c" is not registered');
+    expect(() => RaukInventory.register("brand-a", configFor("brand-a", brandA))).toThrow("already registered");
+  });
+
+  it("should keep the static methods on the default tenant", async () => {
+    RaukInventory.register("brand-b", configFor("brand-b", brandB));
+    expect(() => RaukInventory.use()).toThrow("must be initialized");
+    await expect(RaukInventory.find({})).rejects.toThrow("must be initialized");
+
+    const client = new RaukInventory(configFor("brand-a", brandA));
+    expect(RaukInventory.use()).toBe(client);
+    expect(RaukInventory.use(RaukInventory.DEFAULT_TENANT)).toBe(client);
+    expect((await RaukInventory.find({})).map((item) => item.sku)).toEqual(["A-001"]);
+    expect(() => new RaukInventory(configFor("brand-a", brandA))).toThrow("already initialized");
+
+    RaukInventory.replace(RaukInventory.DEFAULT_TENANT, configFor("brand-b", brandB));
+    expect((await RaukInventory.find({})).map((item) => item.sku)).toEqual(["B-001"]);
+  });
+
+  it("should dispose replaced clients without interrupting their requests", async () => {
+    const previous = RaukInventory.register("brand-a", configFor("brand-a", brandA));
+    const pending = previous.find({});
+
+    const next = RaukInventory.replace("brand-a", configFor("brand-a", brandB));
+    expect(RaukInventory.use("brand-a")).toBe(next);
+    expect(previous.isDisposed).toBe(true);
+    expect((await pending).map((item) => item.sku)).toEqual(["A-001"]);
+
+    await expect(previous.find({})).rejects.toThrow(RaukError);
+    await expect(previous.find({})).rejects.toThrow("has been disposed");
+    expect((await next.find({})).map((item) => item.sku)).toEqual(["B-001"]);
+  });
+
+  it("should leave the tenant untouched when the replacement config is invalid", () => {
+    const client = RaukInventory.register("brand-a", configFor("brand-a", brandA));
+
+    expect(() => RaukInventory.replace("brand-a", { ...configFor("brand-a", brandA), apiSecret: "" })).toThrow(
+      "apiKeyId, apiSecret and apiPublicKey are required"
+    );
+    expect(RaukInventory.use("brand-a")).toBe(client);
+    expect(client.isDisposed).toBe(false);
+  });
+
+  it("should allow a new default instance once the default tenant is disposed", () => {
+    const first = new RaukInventory(configFor("brand-a", brandA));
+
+    expect(RaukInventory.dispose()).toBe(true);
+    expect(first.isDisposed).toBe(true);
+    expect(RaukInventory.dispose()).toBe(false);
+    expect(RaukInventory.dispose("brand-c")).toBe(false);
+
+    const second = new RaukInventory(configFor("brand-b", brandB));
+    expect(RaukInventory.use()).toBe(second);
+  });
+});
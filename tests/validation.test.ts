@@ -0,0 +1,100 @@
+import { RaukInventoryClient, validateCreateItem, validateUpdateItem, validateBulkWrite } from "../src/index";
+import { RaukValidationError } from "../src/utils/errors";
+import { item } from "./fixtures";
+
+describe("client-side validation", () => {
+  const config = {
+    apiKeyId: "test-key",
+    apiSecret: "test-secret",
+    apiPublicKey: "test-public",
+    apiBaseUrl: "https://inventory.rauk.local",
+  };
+
+  const validItem = item("ITEM-001");
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should accept a valid item", () => {
+    expect(validateCreateItem(validItem)).toEqual([]);
+  });
+
+  it("should report missing nested properties like the API", () => {
+    const errors = validateCreateItem({
+      ...validItem,
+      entities: { brandId: "brand-1" },
+      packageQuantity: 0,
+    });
+
+    expect(errors).toEqual([
+      {
+        property: "entities",
+        constraints: [],
+        children: [
+          { property: "factoryId", constraints: ["factoryId should not be null or undefined"], children: [] },
+        ],
+      },
+      { property: "packageQuantity", constraints: ["packageQuantity must be a positive number"], children: [] },
+    ]);
+  });
+
+  it("should reject updates to fields managed by the API", () => {
+    expect(validateUpdateItem({ packageQuantity: 5 })).toEqual([]);
+    expect(validateUpdateItem({ $push: { locationHistory: { id: "warehouse-2" } } })).toEqual([]);
+
+    expect(validateUpdateItem({ id: "other" })).toEqual([
+      { property: "id", constraints: ["property id should not exist"], children: [] },
+    ]);
+    expect(validateUpdateItem({ $set: { "entities.brandId": "brand-2" } })).toEqual([
+      {
+        property: "$set",
+        constraints: [],
+        children: [{ property: "entities", constraints: ["property entities should not exist"], children: [] }],
+      },
+    ]);
+  });
+
+  it("should nest bulk write errors under the operation index", () => {
+    const errors = validateBulkWrite([
+      { insertOne: { document: validItem } },
+      { insertOne: { document: { ...validItem, sku: "" } } },
+      // @ts-expect-error the location history is managed by the API
+      { updateOne: { filter: { sku: "ITEM-001" }, update: { locationHistory: [] } } },
+    ]);
+
+    expect(errors.map((error) => error.property)).toEqual(["1", "2"]);
+    expect(errors[1].children[0].property).toBe("updateOne");
+  });
+
+  it("should throw before sending when validation is enabled", async () => {
+    const fetchMock = jest.spyOn(global, "fetch");
+    const client = new RaukInventoryClient({ ...config, validate: true });
+
+    const error = await client
+      // @ts-expect-error factoryId is missing
+      .create({ ...validItem, entities: { brandId: "brand-1" } })
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RaukValidationError);
+    expect(error.getErrorsForProperty("factoryId")).toHaveLength(1);
+    expect(error.context).toEqual({ source: "client" });
+    // @ts-expect-error id is managed by the API
+    await expect(client.update({ sku: "ITEM-001" }, { id: "other" })).rejects.toThrow(
+      "property id should not exist"
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should leave validation to the API by default", async () => {
+    const fetchMock = jest
+      .spyOn(global, "fetch")
+      .mockResolvedValue({ ok: true, status: 200, json: async () => ({}) } as Response);
+    const client = new RaukInventoryClient(config);
+
+    // @ts-expect-error id is managed by the API
+    await client.update({ sku: "ITEM-001" }, { id: "other" });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});